@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+import { FileTokenStore, TokenSummary } from '../src/auth/token-store.js';
+
+/**
+ * List and revoke OAuth tokens in the file token store
+ * Usage:
+ *   npm run tokens -- list
+ *   npm run tokens -- revoke <token-id-prefix>
+ *   npm run tokens -- revoke --client <client_id>
+ *
+ * A running server picks up changes on its next token lookup. Writes from the
+ * server and this script are serialized with a lock file and merged, so a
+ * revocation is never overwritten by a concurrent server write
+ */
+
+dotenv.config();
+
+const storePath = process.env.OAUTH_STORE_PATH || './data/oauth-store.json';
+
+function usage(): never {
+  console.error('Usage:');
+  console.error('  npm run tokens -- list');
+  console.error('  npm run tokens -- revoke <token-id-prefix>');
+  console.error('  npm run tokens -- revoke --client <client_id>');
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  // A memory store lives only inside the server process; there is nothing on disk to manage
+  if (process.env.OAUTH_STORE === 'memory') {
+    console.error('OAUTH_STORE=memory: tokens live only in the running server, so this script cannot see or revoke them.');
+    console.error('Use POST /revoke with the operator secret, or restart the server to drop every token.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const store = new FileTokenStore(storePath);
+
+  try {
+    const tokens = await store.listTokens();
+
+    switch (command) {
+      case 'list': {
+        if (tokens.length === 0) {
+          console.log(`No active tokens in ${storePath}`);
+          return;
+        }
+        for (const token of tokens) {
+          const status = token.usedAt ? ' (used)' : '';
+          console.log(
+            `${token.id.substring(0, 12)}  ${token.type.padEnd(13)}  client=${token.clientId}  ` +
+            `scope="${token.scope}"  family=${token.familyId.substring(0, 8)}  ` +
+            `expires=${new Date(token.expiresAt).toISOString()}${status}`
+          );
+        }
+        return;
+      }
+
+      case 'revoke': {
+        let matches: TokenSummary[];
+        if (args[0] === '--client') {
+          if (!args[1]) usage();
+          matches = tokens.filter((token) => token.clientId === args[1]);
+        } else {
+          if (!args[0]) usage();
+          matches = tokens.filter((token) => token.id.startsWith(args[0]));
+          const ids = new Set(matches.map((token) => token.id));
+          if (ids.size > 1) {
+            console.error(`Token id prefix "${args[0]}" is ambiguous; use more characters`);
+            process.exitCode = 1;
+            return;
+          }
+        }
+
+        if (matches.length === 0) {
+          console.error('No matching tokens found');
+          process.exitCode = 1;
+          return;
+        }
+
+        // Revoke whole families so a refresh token can't mint a replacement
+        const families = new Set(matches.map((token) => token.familyId));
+        for (const familyId of families) {
+          await store.revokeTokenFamily(familyId);
+        }
+
+        // Read the file back so a failed write isn't reported as a revocation
+        const check = new FileTokenStore(storePath);
+        const remaining = (await check.listTokens()).filter((token) => families.has(token.familyId));
+        await check.close();
+        if (remaining.length > 0) {
+          console.error(`Revocation did not reach ${storePath}; ${remaining.length} token(s) are still active`);
+          process.exitCode = 1;
+          return;
+        }
+
+        console.log(`Revoked ${families.size} grant(s) for ${new Set(matches.map((t) => t.clientId)).size} client(s)`);
+        return;
+      }
+
+      default:
+        usage();
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,229 @@
+import { appendFile, mkdir, open, rename, stat, FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from '../utils/logger.js';
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  clientId?: string;
+  tool: string;
+  arguments: unknown; // Redacted (see redactArguments)
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  limit?: number; // default: 50
+  tool?: string;
+  clientId?: string;
+  outcome?: AuditOutcome;
+  since?: string; // ISO 8601 timestamp
+}
+
+export interface AuditLogOptions {
+  maxBytes: number; // Size at which the log is rotated to <path>.1 (the previous .1 is dropped)
+}
+
+export const DEFAULT_AUDIT_LOG_OPTIONS: AuditLogOptions = {
+  maxBytes: 10 * 1024 * 1024,
+};
+
+// Bytes read per step when scanning the log backwards
+const READ_CHUNK_BYTES = 64 * 1024;
+
+// Argument keys whose values never reach the audit log
+const SENSITIVE_KEY_PATTERN = /token|secret|password|api[_-]?key|authorization|cookie/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 6;
+
+/**
+ * Redact secrets and truncate long values so arguments are safe to store
+ */
+export function redactArguments(value: unknown, depth: number = 0): unknown {
+  if (depth > MAX_DEPTH) {
+    return '[TRUNCATED]';
+  }
+
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.substring(0, MAX_STRING_LENGTH)}...[${value.length - MAX_STRING_LENGTH} more chars]`
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, depth + 1));
+  }
+
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = SENSITIVE_KEY_PATTERN.test(key) ? '[REDACTED]' : redactArguments(item, depth + 1);
+    }
+    return redacted;
+  }
+
+  return value;
+}
+
+async function openIfExists(filePath: string): Promise<FileHandle | null> {
+  try {
+    return await open(filePath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lines of a file from last to first, read in chunks from the end
+ */
+async function* readLinesBackward(file: FileHandle): AsyncGenerator<string> {
+  let position = (await file.stat()).size;
+  // Start of the earliest line seen so far, which may continue in the previous chunk
+  let partial = Buffer.alloc(0);
+
+  while (position > 0) {
+    const length = Math.min(READ_CHUNK_BYTES, position);
+    position -= length;
+    const chunk = Buffer.alloc(length);
+    await file.read(chunk, 0, length, position);
+
+    // Splitting on the newline byte is safe in UTF-8
+    const buffer = Buffer.concat([chunk, partial]);
+    let end = buffer.length;
+    for (let i = buffer.length - 1; i >= 0; i--) {
+      if (buffer[i] === 0x0a) {
+        yield buffer.subarray(i + 1, end).toString('utf-8');
+        end = i;
+      }
+    }
+    partial = buffer.subarray(0, end);
+  }
+
+  yield partial.toString('utf-8');
+}
+
+/**
+ * Append-only JSONL log of tool calls, rotated to <path>.1 once it reaches maxBytes
+ * Entries are never rewritten; appends are serialized so lines don't interleave
+ */
+export class AuditLog {
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private dirCreated = false;
+  // Current size of the log file, read on the first write
+  private size: number | null = null;
+
+  constructor(
+    private filePath: string,
+    private options: AuditLogOptions = DEFAULT_AUDIT_LOG_OPTIONS
+  ) {}
+
+  private get rotatedPath(): string {
+    return `${this.filePath}.1`;
+  }
+
+  /**
+   * Queue an entry for writing (failures are logged, never thrown at the caller)
+   */
+  record(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const lineBytes = Buffer.byteLength(line);
+
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        // Created lazily so an unwritable directory is logged rather than blocking startup
+        if (!this.dirCreated) {
+          await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+          this.dirCreated = true;
+        }
+
+        if (this.size === null) {
+          this.size = await stat(this.filePath).then((s) => s.size, () => 0);
+        }
+        if (this.size > 0 && this.size + lineBytes > this.options.maxBytes) {
+          await rename(this.filePath, this.rotatedPath);
+          this.size = 0;
+        }
+
+        await appendFile(this.filePath, line, { mode: 0o600 });
+        this.size += lineBytes;
+      })
+      .catch((error) => {
+        // Re-read the size next time in case the append or rotation half-happened
+        this.size = null;
+        logger.error('Failed to write audit log entry', { path: this.filePath, tool: entry.tool }, error as Error);
+      });
+  }
+
+  /**
+   * Most recent entries first, filtered by the query
+   * Reads backwards from the end of the log (then the rotated file) and stops once
+   * limit entries are found or every remaining entry finished before since
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    // Open both files between writes so a rotation can't shift them mid-query
+    const opened = this.pendingWrite.then(() =>
+      Promise.all([openIfExists(this.filePath), openIfExists(this.rotatedPath)])
+    );
+    this.pendingWrite = opened.then(() => {}, () => {});
+    const files = await opened;
+
+    const limit = Math.min(Math.max(query.limit || 50, 1), 500);
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const entries: AuditEntry[] = [];
+
+    try {
+      scan: for (const file of files) {
+        if (!file) {
+          continue;
+        }
+
+        for await (const line of readLinesBackward(file)) {
+          if (!line) {
+            continue;
+          }
+
+          let entry: AuditEntry;
+          try {
+            entry = JSON.parse(line);
+          } catch {
+            continue; // Skip a line truncated by a crash mid-write
+          }
+
+          const startedAt = Date.parse(entry.timestamp);
+          if (since !== undefined && startedAt < since) {
+            // Entries are appended in completion order, so once one finished before since, all earlier ones did too
+            if (startedAt + entry.durationMs < since) {
+              break scan;
+            }
+            continue;
+          }
+          if (query.tool && entry.tool !== query.tool) continue;
+          if (query.clientId && entry.clientId !== query.clientId) continue;
+          if (query.outcome && entry.outcome !== query.outcome) continue;
+
+          entries.push(entry);
+          if (entries.length >= limit) {
+            break scan;
+          }
+        }
+      }
+    } finally {
+      await Promise.all(files.map((file) => file?.close()));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Wait for queued entries to reach disk
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
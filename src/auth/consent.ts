@@ -0,0 +1,77 @@
+import { escapeHtml } from '../utils/security.js';
+
+export interface ConsentPageOptions {
+  clientName: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: { name: string; description: string }[];
+  // Original /authorize parameters, echoed back as hidden form fields
+  params: Record<string, string>;
+  nonce: string;
+  error?: string;
+}
+
+/**
+ * Render the operator consent page shown by /authorize
+ * Styles are inlined with a CSP nonce since the page is served standalone
+ */
+export function renderConsentPage(options: ConsentPageOptions): string {
+  const redirectHost = new URL(options.redirectUri).host;
+
+  const hiddenFields = Object.entries(options.params)
+    .map(([name, value]) =>
+      `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`
+    )
+    .join('\n        ');
+
+  const scopeItems = options.scopes.length > 0
+    ? options.scopes
+        .map((s) => `<li><code>${escapeHtml(s.name)}</code> &mdash; ${escapeHtml(s.description)}</li>`)
+        .join('\n          ')
+    : '<li>No specific scopes requested</li>';
+
+  const errorBlock = options.error
+    ? `<p class="error">${escapeHtml(options.error)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="referrer" content="no-referrer">
+    <title>Authorize ${escapeHtml(options.clientName)}</title>
+    <style nonce="${escapeHtml(options.nonce)}">
+      body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; color: #1f2328; }
+      .card { border: 1px solid #d0d7de; border-radius: 8px; padding: 1.5rem; }
+      .meta { color: #57606a; font-size: 0.9rem; word-break: break-all; }
+      .error { color: #cf222e; font-weight: 600; }
+      label { display: block; margin: 1rem 0 0.25rem; font-weight: 600; }
+      input[type=password] { width: 100%; padding: 0.5rem; box-sizing: border-box; }
+      .actions { display: flex; gap: 0.5rem; margin-top: 1rem; }
+      button { padding: 0.5rem 1rem; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <div class="card">
+      <h1>Authorize access</h1>
+      <p><strong>${escapeHtml(options.clientName)}</strong> is requesting access to this MCP server.</p>
+      <p class="meta">Client ID: ${escapeHtml(options.clientId)}<br>Redirects to: ${escapeHtml(redirectHost)}</p>
+      <h2>Requested scopes</h2>
+      <ul>
+          ${scopeItems}
+      </ul>
+      ${errorBlock}
+      <form method="post" action="/authorize">
+        ${hiddenFields}
+        <label for="operator_secret">Operator secret (AUTH_TOKEN)</label>
+        <input type="password" id="operator_secret" name="operator_secret" autocomplete="current-password" required autofocus>
+        <div class="actions">
+          <button type="submit" name="decision" value="approve">Approve</button>
+          <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+        </div>
+      </form>
+    </div>
+  </body>
+</html>`;
+}
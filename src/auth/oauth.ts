@@ -1,49 +1,59 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { logger } from '../utils/logger.js';
+import { secureCompare } from '../utils/security.js';
+import { renderConsentPage } from './consent.js';
+import {
+  RedirectPolicy,
+  DEFAULT_REDIRECT_RULES,
+  parseRedirectRules,
+  isRedirectAllowedForClient,
+  matchesRegisteredRedirectUri
+} from './redirect-policy.js';
+import { TokenStore, MemoryTokenStore } from './token-store.js';
+import { AccessToken, OAuthClient, RefreshToken } from './types.js';
+import { SUPPORTED_SCOPES, SCOPE_DESCRIPTIONS } from './scopes.js';
+
+// OAuth code and token storage (in-memory until a persistent store is configured)
+let tokenStore: TokenStore = new MemoryTokenStore();
+
+// Authorization codes are short-lived (10 minutes)
+const AUTHORIZATION_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Access tokens last 1 hour; refresh tokens let clients renew them for 30 days
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Grants this authorization server can issue
+const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token'];
+
+// Redirect URIs clients may register (Claude's callbacks until configured otherwise)
+let redirectPolicy: RedirectPolicy = {
+  rules: parseRedirectRules(DEFAULT_REDIRECT_RULES),
+  clientOverrides: {}
+};
 
-// OAuth session storage (in-memory for now, use Redis in production)
-interface AuthorizationSession {
-  codeChallenge: string;
-  codeChallengeMethod: string;
-  redirectUri: string;
-  clientId: string;
-  scope: string;
-  state: string;
-  resource: string;
-  createdAt: number;
+/**
+ * Replace the redirect URI policy applied at client registration
+ */
+export function setRedirectPolicy(policy: RedirectPolicy): void {
+  redirectPolicy = policy;
 }
 
-interface AccessToken {
-  token: string;
-  clientId: string;
-  scope: string;
-  resource: string;
-  expiresAt: number;
-  createdAt: number;
+/**
+ * Replace the token store used by the OAuth endpoints
+ */
+export function setTokenStore(store: TokenStore): void {
+  tokenStore = store;
 }
 
-const authorizationCodes = new Map<string, AuthorizationSession>();
-const accessTokens = new Map<string, AccessToken>();
-
-// Clean up expired codes and tokens periodically
-setInterval(() => {
-  const now = Date.now();
-
-  // Clean up codes older than 10 minutes
-  for (const [code, session] of authorizationCodes.entries()) {
-    if (now - session.createdAt > 10 * 60 * 1000) {
-      authorizationCodes.delete(code);
-    }
-  }
-
-  // Clean up expired tokens
-  for (const [token, data] of accessTokens.entries()) {
-    if (now > data.expiresAt) {
-      accessTokens.delete(token);
-    }
-  }
-}, 60 * 1000); // Run every minute
+/**
+ * Get the active token store (used for shutdown flushing)
+ */
+export function getTokenStore(): TokenStore {
+  return tokenStore;
+}
 
 /**
  * Generate a random base64url-encoded string
@@ -54,6 +64,13 @@ function generateRandomString(length: number = 32): string {
     .substring(0, length);
 }
 
+/**
+ * Split a space-separated scope string
+ */
+function parseScopes(scope: string | undefined): string[] {
+  return (scope || '').split(' ').filter(Boolean);
+}
+
 /**
  * Verify PKCE code challenge
  */
@@ -70,96 +87,263 @@ function verifyCodeChallenge(verifier: string, challenge: string, method: string
   return false;
 }
 
+// Parameters accepted by /authorize (query string on GET, form body on POST)
+const AUTHORIZE_PARAMS = [
+  'client_id',
+  'redirect_uri',
+  'response_type',
+  'code_challenge',
+  'code_challenge_method',
+  'state',
+  'scope',
+  'resource'
+];
+
 /**
- * OAuth 2.1 Authorization endpoint
- * Handles the initial authorization request from Claude.ai
+ * Validate an authorization request and resolve its client
+ * Sends the error response and returns null if the request is invalid
+ */
+async function validateAuthorizationRequest(
+  req: Request,
+  res: Response,
+  params: Record<string, string>
+): Promise<OAuthClient | null> {
+  const {
+    client_id,
+    redirect_uri,
+    response_type,
+    code_challenge,
+    code_challenge_method,
+    scope
+  } = params;
+
+  // Validate required parameters
+  if (!client_id || !redirect_uri || !response_type || !code_challenge || !code_challenge_method) {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing required parameters'
+    });
+    return null;
+  }
+
+  // Only support authorization code flow
+  if (response_type !== 'code') {
+    res.status(400).json({
+      error: 'unsupported_response_type',
+      error_description: 'Only authorization_code flow is supported'
+    });
+    return null;
+  }
+
+  // Only support S256 PKCE
+  if (code_challenge_method !== 'S256') {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Only S256 code_challenge_method is supported'
+    });
+    return null;
+  }
+
+  // Validate client_id against registered clients
+  const client = await tokenStore.getClient(client_id);
+  if (!client) {
+    logger.authFailure('unknown_client', req.ip);
+    res.status(400).json({
+      error: 'invalid_client',
+      error_description: 'Unknown client_id'
+    });
+    return null;
+  }
+
+  // Validate redirect_uri (must match a registered URI; loopback URIs may use any port)
+  if (!client.redirectUris.some((registered) => matchesRegisteredRedirectUri(redirect_uri, registered))) {
+    logger.authFailure('unregistered_redirect_uri', req.ip);
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Invalid redirect_uri'
+    });
+    return null;
+  }
+
+  // Validate requested scopes against those the client registered
+  const allowedScopes = parseScopes(client.scope);
+  if (parseScopes(scope).some((s) => !allowedScopes.includes(s))) {
+    res.status(400).json({
+      error: 'invalid_scope',
+      error_description: 'Requested scope is not allowed for this client'
+    });
+    return null;
+  }
+
+  // Without an explicit scope the client gets the scopes it registered (RFC 6749 §3.3)
+  if (!scope) {
+    params.scope = client.scope;
+  }
+
+  return client;
+}
+
+/**
+ * Pick the /authorize parameters out of a query string or form body
+ */
+function readAuthorizeParams(source: Record<string, unknown>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of AUTHORIZE_PARAMS) {
+    const value = source[name];
+    if (typeof value === 'string' && value) {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Render the consent page with a per-response CSP
+ * form-action must include the client's redirect origin, since browsers apply
+ * it to the redirect that follows the form submission
+ */
+function sendConsentPage(
+  res: Response,
+  client: OAuthClient,
+  params: Record<string, string>,
+  status: number = 200,
+  error?: string
+): void {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  const redirectOrigin = new URL(params.redirect_uri).origin;
+
+  res.setHeader(
+    'Content-Security-Policy',
+    `default-src 'none'; style-src 'nonce-${nonce}'; form-action 'self' ${redirectOrigin}; frame-ancestors 'none'; base-uri 'none'`
+  );
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(status).type('html').send(renderConsentPage({
+    clientName: client.clientName || 'Unnamed client',
+    clientId: client.clientId,
+    redirectUri: params.redirect_uri,
+    scopes: parseScopes(params.scope).map((name) => ({
+      name,
+      description: SCOPE_DESCRIPTIONS[name] || 'Custom scope'
+    })),
+    params,
+    nonce,
+    error
+  }));
+}
+
+/**
+ * OAuth 2.1 Authorization endpoint (GET)
+ * Validates the authorization request from the client and shows the consent page
  */
 export function handleAuthorize(baseUrl: string, authToken: string) {
-  return (req: Request, res: Response) => {
+  return async (req: Request, res: Response) => {
     try {
       logger.info('OAuth /authorize request:', {
         query: req.query,
         headers: req.headers
       });
 
-      const {
-        client_id,
-        redirect_uri,
-        response_type,
-        code_challenge,
-        code_challenge_method,
-        state,
-        scope,
-        resource
-      } = req.query as Record<string, string>;
+      const params = readAuthorizeParams(req.query as Record<string, unknown>);
+      const client = await validateAuthorizationRequest(req, res, params);
+      if (!client) {
+        return;
+      }
 
-      // Validate required parameters
-      if (!client_id || !redirect_uri || !response_type || !code_challenge || !code_challenge_method) {
-        res.status(400).json({
-          error: 'invalid_request',
-          error_description: 'Missing required parameters'
+      // Without an operator secret nobody can approve the request
+      if (!authToken) {
+        logger.error('Refusing /authorize: AUTH_TOKEN is not configured');
+        res.status(503).json({
+          error: 'temporarily_unavailable',
+          error_description: 'Authorization requires AUTH_TOKEN to be configured on the server'
         });
         return;
       }
 
-      // Only support authorization code flow
-      if (response_type !== 'code') {
-        res.status(400).json({
-          error: 'unsupported_response_type',
-          error_description: 'Only authorization_code flow is supported'
-        });
+      sendConsentPage(res, client, params);
+
+    } catch (error) {
+      logger.error('Error in /authorize endpoint:', {}, error as Error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Internal server error'
+      });
+    }
+  };
+}
+
+/**
+ * OAuth 2.1 Authorization endpoint (POST)
+ * Handles the consent decision; a code is only issued once the operator secret checks out
+ */
+export function handleAuthorizeDecision(baseUrl: string, authToken: string) {
+  return async (req: Request, res: Response) => {
+    try {
+      const params = readAuthorizeParams(req.body || {});
+      const client = await validateAuthorizationRequest(req, res, params);
+      if (!client) {
         return;
       }
 
-      // Only support S256 PKCE
-      if (code_challenge_method !== 'S256') {
-        res.status(400).json({
-          error: 'invalid_request',
-          error_description: 'Only S256 code_challenge_method is supported'
-        });
+      const { redirect_uri, state } = params;
+      const redirectUrl = new URL(redirect_uri);
+      if (state) {
+        redirectUrl.searchParams.set('state', state);
+      }
+
+      // Operator declined the request
+      if (req.body.decision === 'deny') {
+        logger.security('authorization_denied', { clientId: client.clientId, ip: req.ip });
+        redirectUrl.searchParams.set('error', 'access_denied');
+        res.redirect(redirectUrl.toString());
         return;
       }
 
-      // Validate redirect_uri (Claude's callback)
-      if (!redirect_uri.startsWith('https://claude.ai/') &&
-          !redirect_uri.startsWith('https://claude.com/')) {
-        res.status(400).json({
-          error: 'invalid_request',
-          error_description: 'Invalid redirect_uri'
+      if (!authToken) {
+        logger.error('Refusing /authorize: AUTH_TOKEN is not configured');
+        res.status(503).json({
+          error: 'temporarily_unavailable',
+          error_description: 'Authorization requires AUTH_TOKEN to be configured on the server'
         });
         return;
       }
 
+      // Verify operator secret
+      const secret = typeof req.body.operator_secret === 'string' ? req.body.operator_secret : '';
+      if (!secureCompare(secret, authToken)) {
+        logger.authFailure('invalid_consent_secret', req.ip);
+        sendConsentPage(res, client, params, 401, 'Incorrect operator secret. Please try again.');
+        return;
+      }
+
       // Generate authorization code
       const authCode = generateRandomString(32);
 
       // Store authorization session
-      authorizationCodes.set(authCode, {
-        codeChallenge: code_challenge,
-        codeChallengeMethod: code_challenge_method,
+      const now = Date.now();
+      await tokenStore.saveAuthorizationCode(authCode, {
+        codeChallenge: params.code_challenge,
+        codeChallengeMethod: params.code_challenge_method,
         redirectUri: redirect_uri,
-        clientId: client_id,
-        scope: scope || '',
+        clientId: client.clientId,
+        scope: params.scope || '',
         state: state || '',
-        resource: resource || baseUrl,
-        createdAt: Date.now()
+        resource: params.resource || baseUrl,
+        createdAt: now,
+        expiresAt: now + AUTHORIZATION_CODE_TTL_MS
       });
 
+      logger.authAttempt(true, req.ip, client.clientId);
       logger.info('Generated authorization code:', {
         code: authCode.substring(0, 10) + '...',
-        clientId: client_id
+        clientId: client.clientId
       });
 
       // Build redirect URL with authorization code
-      const redirectUrl = new URL(redirect_uri);
       redirectUrl.searchParams.set('code', authCode);
-      if (state) {
-        redirectUrl.searchParams.set('state', state);
-      }
 
-      logger.info('Redirecting to:', { url: redirectUrl.toString() });
+      logger.info('Redirecting to:', { url: redirectUrl.origin + redirectUrl.pathname });
 
-      // Redirect back to Claude with the authorization code
+      // Redirect back to the client with the authorization code
       res.redirect(redirectUrl.toString());
 
     } catch (error) {
@@ -172,29 +356,317 @@ export function handleAuthorize(baseUrl: string, authToken: string) {
   };
 }
 
+/**
+ * OAuth 2.0 Dynamic Client Registration endpoint (RFC 7591)
+ * Issues client IDs for public clients; only token_endpoint_auth_method "none" is supported
+ */
+export function handleRegister() {
+  return async (req: Request, res: Response) => {
+    try {
+      const {
+        redirect_uris,
+        client_name,
+        grant_types,
+        response_types,
+        scope,
+        token_endpoint_auth_method
+      } = req.body || {};
+
+      logger.info('OAuth /register request:', {
+        clientName: client_name,
+        redirectUris: redirect_uris
+      });
+
+      // Validate redirect URIs against the policy for this client
+      if (!Array.isArray(redirect_uris) || redirect_uris.length === 0 ||
+          redirect_uris.some((uri) => typeof uri !== 'string')) {
+        res.status(400).json({
+          error: 'invalid_redirect_uri',
+          error_description: 'redirect_uris must be a non-empty array of URIs'
+        });
+        return;
+      }
+
+      const clientName = typeof client_name === 'string' ? client_name : undefined;
+      for (const uri of redirect_uris as string[]) {
+        if (!isRedirectAllowedForClient(redirectPolicy, uri, clientName)) {
+          logger.authFailure('disallowed_redirect_uri', req.ip);
+          res.status(400).json({
+            error: 'invalid_redirect_uri',
+            error_description: `Redirect URI not allowed: ${uri}`
+          });
+          return;
+        }
+      }
+
+      // Validate remaining client metadata
+      const grantTypes: string[] = grant_types ?? ['authorization_code', 'refresh_token'];
+      const responseTypes: string[] = response_types ?? ['code'];
+      const requestedScopes = scope === undefined ? SUPPORTED_SCOPES : parseScopes(String(scope));
+
+      const invalidMetadata =
+        (client_name !== undefined && typeof client_name !== 'string') ||
+        !Array.isArray(grantTypes) || grantTypes.some((g) => !SUPPORTED_GRANT_TYPES.includes(g)) ||
+        !Array.isArray(responseTypes) || responseTypes.some((r) => r !== 'code') ||
+        requestedScopes.some((s) => !SUPPORTED_SCOPES.includes(s)) ||
+        (token_endpoint_auth_method !== undefined && token_endpoint_auth_method !== 'none');
+
+      if (invalidMetadata) {
+        res.status(400).json({
+          error: 'invalid_client_metadata',
+          error_description: 'Unsupported grant_types, response_types, scope or token_endpoint_auth_method'
+        });
+        return;
+      }
+
+      const client: OAuthClient = {
+        clientId: generateRandomString(32),
+        clientName: client_name ? String(client_name).substring(0, 200) : undefined,
+        redirectUris: redirect_uris,
+        grantTypes,
+        responseTypes,
+        scope: requestedScopes.join(' '),
+        tokenEndpointAuthMethod: 'none',
+        clientIdIssuedAt: Math.floor(Date.now() / 1000)
+      };
+
+      await tokenStore.saveClient(client);
+
+      logger.security('client_registered', {
+        clientId: client.clientId,
+        clientName: client.clientName,
+        ip: req.ip
+      });
+
+      res.status(201).json({
+        client_id: client.clientId,
+        client_id_issued_at: client.clientIdIssuedAt,
+        client_name: client.clientName,
+        redirect_uris: client.redirectUris,
+        grant_types: client.grantTypes,
+        response_types: client.responseTypes,
+        scope: client.scope,
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod
+      });
+
+    } catch (error) {
+      logger.error('Error in /register endpoint:', {}, error as Error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Internal server error'
+      });
+    }
+  };
+}
+
+/**
+ * Issue a new access token and rotated refresh token for a grant
+ */
+async function issueTokens(
+  req: Request,
+  res: Response,
+  grant: { clientId: string; scope: string; resource: string; familyId: string }
+): Promise<void> {
+  const now = Date.now();
+
+  // Generate access token
+  const accessToken = generateRandomString(48);
+  const expiresIn = ACCESS_TOKEN_TTL_SECONDS;
+
+  // Store access token (hashed at rest by the token store)
+  await tokenStore.saveAccessToken(accessToken, {
+    ...grant,
+    expiresAt: now + (expiresIn * 1000),
+    createdAt: now
+  });
+
+  // Generate refresh token in the same family
+  const refreshToken = generateRandomString(48);
+  await tokenStore.saveRefreshToken(refreshToken, {
+    ...grant,
+    expiresAt: now + (REFRESH_TOKEN_TTL_SECONDS * 1000),
+    createdAt: now
+  });
+
+  logger.authAttempt(true, req.ip, grant.clientId);
+  logger.info('Issued access token:', {
+    tokenPreview: accessToken.substring(0, 10) + '...',
+    expiresIn,
+    scope: grant.scope
+  });
+
+  // Return access and refresh tokens
+  res.json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: expiresIn,
+    refresh_token: refreshToken,
+    scope: grant.scope || undefined
+  });
+}
+
+/**
+ * Exchange an authorization code (grant_type=authorization_code)
+ */
+async function handleAuthorizationCodeGrant(req: Request, res: Response): Promise<void> {
+  const {
+    code,
+    code_verifier,
+    client_id,
+    redirect_uri
+  } = req.body;
+
+  // Validate required parameters
+  if (!code || !code_verifier || !client_id) {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing required parameters'
+    });
+    return;
+  }
+
+  // Retrieve and invalidate authorization session (one-time use, also prevents retry attacks)
+  const session = await tokenStore.consumeAuthorizationCode(code);
+  if (!session) {
+    logger.authFailure('invalid_authorization_code', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'Invalid or expired authorization code'
+    });
+    return;
+  }
+
+  // Verify PKCE code verifier
+  if (!verifyCodeChallenge(code_verifier, session.codeChallenge, session.codeChallengeMethod)) {
+    logger.authFailure('invalid_code_verifier', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'Invalid code_verifier'
+    });
+    return;
+  }
+
+  // Verify client_id matches
+  if (client_id !== session.clientId) {
+    logger.authFailure('client_id_mismatch', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'client_id mismatch'
+    });
+    return;
+  }
+
+  // Verify redirect_uri matches (if provided)
+  if (redirect_uri && redirect_uri !== session.redirectUri) {
+    logger.authFailure('redirect_uri_mismatch', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'redirect_uri mismatch'
+    });
+    return;
+  }
+
+  // Each authorization code starts a new refresh token family
+  await issueTokens(req, res, {
+    clientId: client_id,
+    scope: session.scope,
+    resource: session.resource,
+    familyId: generateRandomString(24)
+  });
+}
+
+/**
+ * Rotate a refresh token (grant_type=refresh_token)
+ * Presenting an already-used refresh token revokes the whole token family,
+ * since it means the token was leaked or replayed
+ */
+async function handleRefreshTokenGrant(req: Request, res: Response): Promise<void> {
+  const { refresh_token, client_id, scope } = req.body;
+
+  // Validate required parameters
+  if (!refresh_token || !client_id) {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing required parameters'
+    });
+    return;
+  }
+
+  const previous = await tokenStore.consumeRefreshToken(refresh_token);
+  if (!previous) {
+    logger.authFailure('invalid_refresh_token', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'Invalid or expired refresh token'
+    });
+    return;
+  }
+
+  // Reuse detection
+  if (previous.usedAt) {
+    await tokenStore.revokeTokenFamily(previous.familyId);
+    logger.authFailure('refresh_token_reuse', req.ip);
+    logger.security('token_family_revoked', {
+      clientId: previous.clientId,
+      reason: 'refresh_token_reuse'
+    });
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'Refresh token has already been used'
+    });
+    return;
+  }
+
+  // Verify client_id matches
+  if (client_id !== previous.clientId) {
+    await tokenStore.revokeTokenFamily(previous.familyId);
+    logger.authFailure('client_id_mismatch', req.ip);
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'client_id mismatch'
+    });
+    return;
+  }
+
+  // A refresh may narrow the scope but never widen it
+  let grantedScope = previous.scope;
+  if (scope) {
+    const originalScopes = parseScopes(previous.scope);
+    const requestedScopes = parseScopes(String(scope));
+    if (requestedScopes.some((s) => !originalScopes.includes(s))) {
+      res.status(400).json({
+        error: 'invalid_scope',
+        error_description: 'Requested scope exceeds the original grant'
+      });
+      return;
+    }
+    grantedScope = requestedScopes.join(' ');
+  }
+
+  await issueTokens(req, res, {
+    clientId: previous.clientId,
+    scope: grantedScope,
+    resource: previous.resource,
+    familyId: previous.familyId
+  });
+}
+
 /**
  * OAuth 2.1 Token endpoint
- * Exchanges authorization code for access token
+ * Exchanges an authorization code or refresh token for an access token
  */
 export function handleToken(authToken: string) {
   return async (req: Request, res: Response) => {
     try {
       logger.info('OAuth /token request:', {
-        body: req.body,
+        grantType: req.body?.grant_type,
+        clientId: req.body?.client_id,
         contentType: req.headers['content-type']
       });
 
-      const {
-        grant_type,
-        code,
-        code_verifier,
-        client_id,
-        redirect_uri,
-        resource
-      } = req.body;
-
-      // Validate required parameters
-      if (!grant_type || !code || !code_verifier || !client_id) {
+      const { grant_type, client_id } = req.body;
+
+      if (!grant_type || !client_id) {
         res.status(400).json({
           error: 'invalid_request',
           error_description: 'Missing required parameters'
@@ -202,93 +674,207 @@ export function handleToken(authToken: string) {
         return;
       }
 
-      // Only support authorization code grant
-      if (grant_type !== 'authorization_code') {
-        res.status(400).json({
-          error: 'unsupported_grant_type',
-          error_description: 'Only authorization_code grant is supported'
+      // Validate client_id against registered clients
+      const client = await tokenStore.getClient(client_id);
+      if (!client) {
+        logger.authFailure('unknown_client', req.ip);
+        res.status(401).json({
+          error: 'invalid_client',
+          error_description: 'Unknown client_id'
         });
         return;
       }
 
-      // Retrieve authorization session
-      const session = authorizationCodes.get(code);
-      if (!session) {
-        logger.authFailure('invalid_authorization_code', req.ip);
+      if (SUPPORTED_GRANT_TYPES.includes(grant_type) && !client.grantTypes.includes(grant_type)) {
         res.status(400).json({
-          error: 'invalid_grant',
-          error_description: 'Invalid or expired authorization code'
+          error: 'unauthorized_client',
+          error_description: `Client is not registered for the ${grant_type} grant`
         });
         return;
       }
 
-      // Verify PKCE code verifier
-      if (!verifyCodeChallenge(code_verifier, session.codeChallenge, session.codeChallengeMethod)) {
-        logger.authFailure('invalid_code_verifier', req.ip);
-        authorizationCodes.delete(code); // Prevent retry attacks
+      switch (grant_type) {
+        case 'authorization_code':
+          await handleAuthorizationCodeGrant(req, res);
+          return;
+
+        case 'refresh_token':
+          await handleRefreshTokenGrant(req, res);
+          return;
+
+        default:
+          res.status(400).json({
+            error: 'unsupported_grant_type',
+            error_description: 'Only authorization_code and refresh_token grants are supported'
+          });
+      }
+
+    } catch (error) {
+      logger.error('Error in /token endpoint:', {}, error as Error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Internal server error'
+      });
+    }
+  };
+}
+
+/**
+ * Check whether a request is authenticated with the operator secret (Bearer AUTH_TOKEN)
+ */
+function isOperatorRequest(req: Request, authToken: string): boolean {
+  const authHeader = req.headers.authorization;
+  if (!authToken || !authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+  return secureCompare(authHeader.substring(7), authToken);
+}
+
+/**
+ * Look up a token as either an access or refresh token, honoring token_type_hint
+ */
+async function findToken(
+  token: string,
+  hint?: string
+): Promise<{ type: 'access_token'; data: AccessToken } | { type: 'refresh_token'; data: RefreshToken } | null> {
+  const lookups = hint === 'refresh_token'
+    ? ['refresh_token', 'access_token'] as const
+    : ['access_token', 'refresh_token'] as const;
+
+  for (const type of lookups) {
+    if (type === 'access_token') {
+      const data = await tokenStore.getAccessToken(token);
+      if (data && Date.now() <= data.expiresAt) {
+        return { type, data };
+      }
+    } else {
+      const data = await tokenStore.getRefreshToken(token);
+      if (data && !data.usedAt && Date.now() <= data.expiresAt) {
+        return { type, data };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * OAuth 2.0 Token Revocation endpoint (RFC 7009)
+ * Public clients identify themselves with client_id and may only revoke their own tokens;
+ * the operator (Bearer AUTH_TOKEN) may revoke any token
+ */
+export function handleRevoke(authToken: string) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { token, token_type_hint, client_id } = req.body || {};
+      const isOperator = isOperatorRequest(req, authToken);
+
+      if (!token || (!client_id && !isOperator)) {
         res.status(400).json({
-          error: 'invalid_grant',
-          error_description: 'Invalid code_verifier'
+          error: 'invalid_request',
+          error_description: 'Missing required parameters'
         });
         return;
       }
 
-      // Verify client_id matches
-      if (client_id !== session.clientId) {
-        logger.authFailure('client_id_mismatch', req.ip);
-        authorizationCodes.delete(code);
-        res.status(400).json({
-          error: 'invalid_grant',
-          error_description: 'client_id mismatch'
+      if (!isOperator && !(await tokenStore.getClient(client_id))) {
+        logger.authFailure('unknown_client', req.ip);
+        res.status(401).json({
+          error: 'invalid_client',
+          error_description: 'Unknown client_id'
         });
         return;
       }
 
-      // Verify redirect_uri matches (if provided)
-      if (redirect_uri && redirect_uri !== session.redirectUri) {
-        logger.authFailure('redirect_uri_mismatch', req.ip);
-        authorizationCodes.delete(code);
+      const found = await findToken(String(token), token_type_hint);
+
+      // Unknown, expired or already revoked tokens still get 200 (RFC 7009 §2.2)
+      if (found) {
+        if (!isOperator && found.data.clientId !== client_id) {
+          logger.authFailure('revoke_client_mismatch', req.ip);
+          res.status(400).json({
+            error: 'invalid_request',
+            error_description: 'Token was not issued to this client'
+          });
+          return;
+        }
+
+        // Revoking a refresh token ends the whole grant; an access token is revoked on its own
+        if (found.type === 'refresh_token') {
+          await tokenStore.revokeTokenFamily(found.data.familyId);
+        } else {
+          await tokenStore.deleteAccessToken(String(token));
+        }
+
+        logger.security('token_revoked', {
+          clientId: found.data.clientId,
+          tokenType: found.type,
+          by: isOperator ? 'operator' : 'client',
+          ip: req.ip
+        });
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).end();
+
+    } catch (error) {
+      logger.error('Error in /revoke endpoint:', {}, error as Error);
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Internal server error'
+      });
+    }
+  };
+}
+
+/**
+ * OAuth 2.0 Token Introspection endpoint (RFC 7662)
+ * Restricted to the operator (Bearer AUTH_TOKEN) so token metadata isn't exposed publicly
+ */
+export function handleIntrospect(baseUrl: string, authToken: string) {
+  return async (req: Request, res: Response) => {
+    try {
+      if (!isOperatorRequest(req, authToken)) {
+        logger.authFailure('introspection_unauthorized', req.ip);
+        res.status(401);
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.json({
+          error: 'invalid_client',
+          error_description: 'Introspection requires the operator secret'
+        });
+        return;
+      }
+
+      const { token, token_type_hint } = req.body || {};
+      if (!token) {
         res.status(400).json({
-          error: 'invalid_grant',
-          error_description: 'redirect_uri mismatch'
+          error: 'invalid_request',
+          error_description: 'Missing required parameters'
         });
         return;
       }
 
-      // Delete authorization code (one-time use)
-      authorizationCodes.delete(code);
-
-      // Generate access token
-      const accessToken = generateRandomString(48);
-      const expiresIn = 3600; // 1 hour
-
-      // Store access token
-      accessTokens.set(accessToken, {
-        token: accessToken,
-        clientId: client_id,
-        scope: session.scope,
-        resource: session.resource,
-        expiresAt: Date.now() + (expiresIn * 1000),
-        createdAt: Date.now()
-      });
+      res.setHeader('Cache-Control', 'no-store');
 
-      logger.authAttempt(true, req.ip, client_id);
-      logger.info('Issued access token:', {
-        tokenPreview: accessToken.substring(0, 10) + '...',
-        expiresIn,
-        scope: session.scope
-      });
+      const found = await findToken(String(token), token_type_hint);
+      if (!found) {
+        res.json({ active: false });
+        return;
+      }
 
-      // Return access token
       res.json({
-        access_token: accessToken,
-        token_type: 'Bearer',
-        expires_in: expiresIn,
-        scope: session.scope || undefined
+        active: true,
+        token_type: found.type,
+        scope: found.data.scope,
+        client_id: found.data.clientId,
+        iat: Math.floor(found.data.createdAt / 1000),
+        exp: Math.floor(found.data.expiresAt / 1000),
+        aud: found.data.resource,
+        iss: baseUrl
       });
 
     } catch (error) {
-      logger.error('Error in /token endpoint:', {}, error as Error);
+      logger.error('Error in /introspect endpoint:', {}, error as Error);
       res.status(500).json({
         error: 'server_error',
         error_description: 'Internal server error'
@@ -301,7 +887,7 @@ export function handleToken(authToken: string) {
  * OAuth Bearer token validation middleware
  */
 export function validateBearerToken(baseUrl?: string) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const authHeader = req.headers.authorization;
 
@@ -328,7 +914,7 @@ export function validateBearerToken(baseUrl?: string) {
       }
 
       const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-      const tokenData = accessTokens.get(token);
+      const tokenData = await tokenStore.getAccessToken(token);
 
       if (!tokenData) {
         logger.authFailure('invalid_access_token', req.ip);
@@ -341,7 +927,7 @@ export function validateBearerToken(baseUrl?: string) {
 
       // Check if token expired
       if (Date.now() > tokenData.expiresAt) {
-        accessTokens.delete(token);
+        await tokenStore.deleteAccessToken(token);
         logger.authFailure('expired_access_token', req.ip);
         res.status(401).json({
           error: 'invalid_token',
@@ -355,6 +941,14 @@ export function validateBearerToken(baseUrl?: string) {
         scope: tokenData.scope
       });
 
+      // Expose the grant to the MCP transports so tool calls can be checked against its scopes
+      (req as Request & { auth?: AuthInfo }).auth = {
+        token,
+        clientId: tokenData.clientId,
+        scopes: parseScopes(tokenData.scope),
+        expiresAt: Math.floor(tokenData.expiresAt / 1000)
+      };
+
       // Token is valid, continue to next middleware
       next();
 
@@ -376,7 +970,7 @@ export function handleProtectedResourceMetadata(baseUrl: string, authServerUrl:
     res.json({
       resource: baseUrl,
       authorization_servers: [authServerUrl],
-      scopes_supported: ['mcp'],
+      scopes_supported: SUPPORTED_SCOPES,
       bearer_methods_supported: ['header']
     });
   };
@@ -391,10 +985,14 @@ export function handleAuthorizationServerMetadata(baseUrl: string) {
       issuer: baseUrl,
       authorization_endpoint: `${baseUrl}/authorize`,
       token_endpoint: `${baseUrl}/token`,
+      registration_endpoint: `${baseUrl}/register`,
+      revocation_endpoint: `${baseUrl}/revoke`,
+      revocation_endpoint_auth_methods_supported: ['none'],
+      introspection_endpoint: `${baseUrl}/introspect`,
       code_challenge_methods_supported: ['S256'],
-      grant_types_supported: ['authorization_code'],
+      grant_types_supported: SUPPORTED_GRANT_TYPES,
       response_types_supported: ['code'],
-      scopes_supported: ['mcp', 'claudeai'],
+      scopes_supported: SUPPORTED_SCOPES,
       token_endpoint_auth_methods_supported: ['none'],
       client_id_metadata_document_supported: false
     });
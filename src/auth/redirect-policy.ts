@@ -0,0 +1,161 @@
+import { ConfigurationError } from '../utils/errors.js';
+
+/**
+ * A single redirect URI rule
+ * - exact: the redirect URI must equal the value
+ * - prefix: the redirect URI must start with the value (on a path boundary)
+ * - loopback: any http://127.0.0.1 or http://[::1] URI on any port (RFC 8252 §7.3)
+ */
+export type RedirectRule =
+  | { type: 'exact'; value: string }
+  | { type: 'prefix'; value: string }
+  | { type: 'loopback' };
+
+export interface RedirectPolicy {
+  // Rules applied to every client
+  rules: RedirectRule[];
+  // Rules that further restrict clients registering with a given client_name
+  // client_name is self-asserted, so these may only narrow the global rules, never widen them
+  clientOverrides: Record<string, RedirectRule[]>;
+}
+
+// Default policy: Claude's OAuth callbacks only
+export const DEFAULT_REDIRECT_RULES = 'prefix:https://claude.ai/ prefix:https://claude.com/';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '[::1]'];
+
+/**
+ * Parse a rule list such as "prefix:https://claude.ai/ exact:https://app.example.com/cb loopback"
+ * Rules are separated by whitespace or commas
+ */
+export function parseRedirectRules(spec: string): RedirectRule[] {
+  return spec
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((token): RedirectRule => {
+      if (token === 'loopback') {
+        return { type: 'loopback' };
+      }
+
+      const separator = token.indexOf(':');
+      const type = token.substring(0, separator);
+      const value = token.substring(separator + 1);
+
+      if ((type !== 'exact' && type !== 'prefix') || !value) {
+        throw new ConfigurationError(
+          `Invalid redirect rule "${token}". Use exact:<uri>, prefix:<uri> or loopback.`
+        );
+      }
+
+      if (!URL.canParse(value)) {
+        throw new ConfigurationError(`Invalid URI in redirect rule "${token}"`);
+      }
+
+      return { type, value };
+    });
+}
+
+/**
+ * Parse per-client overrides from JSON, e.g. {"Claude Desktop": "prefix:https://claude.ai/"}
+ */
+export function parseClientRedirectOverrides(json: string): Record<string, RedirectRule[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ConfigurationError('OAUTH_CLIENT_REDIRECT_RULES must be a JSON object');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigurationError('OAUTH_CLIENT_REDIRECT_RULES must be a JSON object');
+  }
+
+  const overrides: Record<string, RedirectRule[]> = {};
+  for (const [clientName, spec] of Object.entries(parsed)) {
+    if (typeof spec !== 'string') {
+      throw new ConfigurationError(`Redirect rules for client "${clientName}" must be a string`);
+    }
+    overrides[clientName] = parseRedirectRules(spec);
+  }
+  return overrides;
+}
+
+/**
+ * Check whether a URI is an RFC 8252 loopback redirect
+ */
+function isLoopbackUri(url: URL): boolean {
+  return url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+}
+
+/**
+ * Check a redirect URI against a rule list
+ */
+export function matchesRedirectRules(redirectUri: string, rules: RedirectRule[]): boolean {
+  if (!URL.canParse(redirectUri)) {
+    return false;
+  }
+
+  const url = new URL(redirectUri);
+
+  // Fragments are never allowed in redirect URIs (RFC 6749 §3.1.2)
+  if (url.hash) {
+    return false;
+  }
+
+  return rules.some((rule) => {
+    switch (rule.type) {
+      case 'exact':
+        return redirectUri === rule.value;
+
+      case 'prefix': {
+        if (!redirectUri.startsWith(rule.value)) {
+          return false;
+        }
+        // Stop "https://claude.ai" from matching "https://claude.ai.evil.com"
+        const next = redirectUri.charAt(rule.value.length);
+        return rule.value.endsWith('/') || next === '' || ['/', '?', '#'].includes(next);
+      }
+
+      case 'loopback':
+        return isLoopbackUri(url);
+    }
+  });
+}
+
+/**
+ * Check whether a client may register a redirect URI
+ * The URI must match the global rules and, when the client_name has an override, the override too
+ */
+export function isRedirectAllowedForClient(policy: RedirectPolicy, redirectUri: string, clientName?: string): boolean {
+  if (!matchesRedirectRules(redirectUri, policy.rules)) {
+    return false;
+  }
+  const override = clientName !== undefined && Object.hasOwn(policy.clientOverrides, clientName)
+    ? policy.clientOverrides[clientName]
+    : undefined;
+  return !override || matchesRedirectRules(redirectUri, override);
+}
+
+/**
+ * Compare a requested redirect URI with one the client registered
+ * Loopback URIs match on any port, since native apps pick a free port at runtime (RFC 8252 §7.3)
+ */
+export function matchesRegisteredRedirectUri(requested: string, registered: string): boolean {
+  if (requested === registered) {
+    return true;
+  }
+
+  if (!URL.canParse(requested) || !URL.canParse(registered)) {
+    return false;
+  }
+
+  const requestedUrl = new URL(requested);
+  const registeredUrl = new URL(registered);
+
+  return isLoopbackUri(requestedUrl) &&
+    isLoopbackUri(registeredUrl) &&
+    requestedUrl.hostname === registeredUrl.hostname &&
+    requestedUrl.pathname === registeredUrl.pathname &&
+    requestedUrl.search === registeredUrl.search &&
+    !requestedUrl.hash;
+}
@@ -0,0 +1,31 @@
+// OAuth scope definitions shared by the authorization server and the tool router
+
+export type ToolScope = 'hevy:read' | 'hevy:write' | 'ha:read' | 'ha:control' | 'audit:read';
+
+// Fine-grained scopes that individual tools require
+export const TOOL_SCOPES: ToolScope[] = ['hevy:read', 'hevy:write', 'ha:read', 'ha:control', 'audit:read'];
+
+// Umbrella scopes that grant every tool scope (kept for existing Claude.ai connectors)
+export const UMBRELLA_SCOPES = ['mcp', 'claudeai'];
+
+// Every scope this server can issue
+export const SUPPORTED_SCOPES = [...UMBRELLA_SCOPES, ...TOOL_SCOPES];
+
+// Human-readable scope descriptions for the consent page
+export const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  mcp: 'Full access to every tool on this MCP server',
+  claudeai: 'Full access to every tool on this MCP server from Claude.ai',
+  'hevy:read': 'Read workouts, routines, exercises and folders from Hevy',
+  'hevy:write': 'Create, update and delete workouts, routines and folders in Hevy',
+  'ha:read': 'Read Home Assistant entity states, services and history',
+  'ha:control': 'Change Home Assistant states and call services (control devices)',
+  'audit:read': 'Read the audit log of tool calls, including their arguments',
+};
+
+/**
+ * Check whether a set of granted scopes allows a tool scope
+ */
+export function hasScope(grantedScopes: string[], requiredScope: ToolScope): boolean {
+  return grantedScopes.includes(requiredScope) ||
+    grantedScopes.some((scope) => UMBRELLA_SCOPES.includes(scope));
+}
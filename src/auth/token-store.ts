@@ -0,0 +1,453 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { open, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from '../utils/logger.js';
+import { AccessToken, AuthorizationSession, OAuthClient, RefreshToken } from './types.js';
+
+/**
+ * Storage for registered OAuth clients, authorization codes, access tokens and refresh tokens
+ * Implementations receive plaintext secrets and are responsible for never
+ * persisting them as-is (see hashToken)
+ */
+export interface TokenStore {
+  saveClient(client: OAuthClient): Promise<void>;
+  getClient(clientId: string): Promise<OAuthClient | null>;
+  saveAuthorizationCode(code: string, session: AuthorizationSession): Promise<void>;
+  // Returns and deletes the code in one step (codes are single-use)
+  consumeAuthorizationCode(code: string): Promise<AuthorizationSession | null>;
+  saveAccessToken(token: string, data: AccessToken): Promise<void>;
+  getAccessToken(token: string): Promise<AccessToken | null>;
+  deleteAccessToken(token: string): Promise<void>;
+  saveRefreshToken(token: string, data: RefreshToken): Promise<void>;
+  getRefreshToken(token: string): Promise<RefreshToken | null>;
+  // Marks the token as used and returns the record as it was before (usedAt set means reuse)
+  consumeRefreshToken(token: string): Promise<RefreshToken | null>;
+  // Delete every access and refresh token issued from the same grant
+  revokeTokenFamily(familyId: string): Promise<void>;
+  // List unexpired tokens by hash (for operators; plaintext tokens are never available)
+  listTokens(): Promise<TokenSummary[]>;
+  // Remove expired codes and tokens
+  cleanup(): Promise<void>;
+  // Wait for pending writes to reach durable storage
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface TokenSummary {
+  id: string; // Token hash
+  type: 'access_token' | 'refresh_token';
+  clientId: string;
+  scope: string;
+  familyId: string;
+  createdAt: number;
+  expiresAt: number;
+  usedAt?: number;
+}
+
+export interface TokenStoreOptions {
+  cleanupIntervalMs?: number; // default: 1 minute
+}
+
+/**
+ * Hash a token or code for storage at rest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * In-memory token store (tokens are lost on restart)
+ */
+export class MemoryTokenStore implements TokenStore {
+  protected clients = new Map<string, OAuthClient>();
+  protected authorizationCodes = new Map<string, AuthorizationSession>();
+  protected accessTokens = new Map<string, AccessToken>();
+  protected refreshTokens = new Map<string, RefreshToken>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(options: TokenStoreOptions = {}) {
+    // Clean up expired codes and tokens periodically
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup().catch((error) => {
+        logger.error('Token store cleanup failed', {}, error as Error);
+      });
+    }, options.cleanupIntervalMs || 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Called after every mutation so subclasses can persist state
+   */
+  protected async onChange(): Promise<void> {}
+
+  /**
+   * Called before every operation so subclasses can pick up external changes
+   */
+  protected reloadIfChanged(): void {}
+
+  async saveClient(client: OAuthClient): Promise<void> {
+    this.reloadIfChanged();
+    this.clients.set(client.clientId, client);
+    await this.onChange();
+  }
+
+  async getClient(clientId: string): Promise<OAuthClient | null> {
+    this.reloadIfChanged();
+    return this.clients.get(clientId) || null;
+  }
+
+  async saveAuthorizationCode(code: string, session: AuthorizationSession): Promise<void> {
+    this.reloadIfChanged();
+    this.authorizationCodes.set(hashToken(code), session);
+    await this.onChange();
+  }
+
+  async consumeAuthorizationCode(code: string): Promise<AuthorizationSession | null> {
+    this.reloadIfChanged();
+    const key = hashToken(code);
+    const session = this.authorizationCodes.get(key);
+    if (!session) {
+      return null;
+    }
+
+    this.authorizationCodes.delete(key);
+    await this.onChange();
+
+    return Date.now() > session.expiresAt ? null : session;
+  }
+
+  async saveAccessToken(token: string, data: AccessToken): Promise<void> {
+    this.reloadIfChanged();
+    this.accessTokens.set(hashToken(token), data);
+    await this.onChange();
+  }
+
+  async getAccessToken(token: string): Promise<AccessToken | null> {
+    this.reloadIfChanged();
+    return this.accessTokens.get(hashToken(token)) || null;
+  }
+
+  async deleteAccessToken(token: string): Promise<void> {
+    this.reloadIfChanged();
+    if (this.accessTokens.delete(hashToken(token))) {
+      await this.onChange();
+    }
+  }
+
+  async saveRefreshToken(token: string, data: RefreshToken): Promise<void> {
+    this.reloadIfChanged();
+    this.refreshTokens.set(hashToken(token), data);
+    await this.onChange();
+  }
+
+  async getRefreshToken(token: string): Promise<RefreshToken | null> {
+    this.reloadIfChanged();
+    return this.refreshTokens.get(hashToken(token)) || null;
+  }
+
+  async consumeRefreshToken(token: string): Promise<RefreshToken | null> {
+    this.reloadIfChanged();
+    const key = hashToken(token);
+    const data = this.refreshTokens.get(key);
+    if (!data || Date.now() > data.expiresAt) {
+      return null;
+    }
+
+    if (!data.usedAt) {
+      // Keep used tokens until they expire so reuse can be detected
+      this.refreshTokens.set(key, { ...data, usedAt: Date.now() });
+      await this.onChange();
+    }
+
+    return data;
+  }
+
+  async revokeTokenFamily(familyId: string): Promise<void> {
+    this.reloadIfChanged();
+    for (const [key, data] of this.accessTokens.entries()) {
+      if (data.familyId === familyId) {
+        this.accessTokens.delete(key);
+      }
+    }
+
+    for (const [key, data] of this.refreshTokens.entries()) {
+      if (data.familyId === familyId) {
+        this.refreshTokens.delete(key);
+      }
+    }
+
+    await this.onChange();
+  }
+
+  async listTokens(): Promise<TokenSummary[]> {
+    this.reloadIfChanged();
+    const now = Date.now();
+    const summaries: TokenSummary[] = [];
+
+    for (const [id, data] of this.accessTokens.entries()) {
+      if (now <= data.expiresAt) {
+        summaries.push({ id, type: 'access_token', ...data });
+      }
+    }
+
+    for (const [id, data] of this.refreshTokens.entries()) {
+      if (now <= data.expiresAt) {
+        summaries.push({ id, type: 'refresh_token', ...data });
+      }
+    }
+
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async cleanup(): Promise<void> {
+    this.reloadIfChanged();
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, session] of this.authorizationCodes.entries()) {
+      if (now > session.expiresAt) {
+        this.authorizationCodes.delete(key);
+        removed++;
+      }
+    }
+
+    for (const [key, data] of this.accessTokens.entries()) {
+      if (now > data.expiresAt) {
+        this.accessTokens.delete(key);
+        removed++;
+      }
+    }
+
+    for (const [key, data] of this.refreshTokens.entries()) {
+      if (now > data.expiresAt) {
+        this.refreshTokens.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.onChange();
+    }
+  }
+
+  async flush(): Promise<void> {}
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    await this.flush();
+  }
+}
+
+interface TokenStoreFile {
+  version: 1;
+  clients?: Record<string, OAuthClient>;
+  authorizationCodes: Record<string, AuthorizationSession>;
+  accessTokens: Record<string, AccessToken>;
+  refreshTokens?: Record<string, RefreshToken>;
+}
+
+// Top-level sections of the file store, each keyed by client ID or token hash
+const SECTIONS = ['clients', 'authorizationCodes', 'accessTokens', 'refreshTokens'] as const;
+type StoreSnapshot = Record<(typeof SECTIONS)[number], Record<string, unknown>>;
+
+// A lock file older than this was left behind by a crashed process
+const STALE_LOCK_MS = 10 * 1000;
+const LOCK_TIMEOUT_MS = 5 * 1000;
+
+function emptySnapshot(): StoreSnapshot {
+  return { clients: {}, authorizationCodes: {}, accessTokens: {}, refreshTokens: {} };
+}
+
+/**
+ * Apply the changes made in memory since baseline (the state last synced with the file)
+ * on top of what the file holds now, so another process's writes are kept
+ * A record the other process deleted (e.g. a revoked token) stays deleted even if it
+ * was updated here; records created here are always kept
+ */
+function mergeSnapshot(disk: StoreSnapshot, baseline: StoreSnapshot, local: StoreSnapshot): StoreSnapshot {
+  const merged = emptySnapshot();
+
+  for (const section of SECTIONS) {
+    const result = { ...disk[section] };
+
+    for (const [key, value] of Object.entries(local[section])) {
+      const base = baseline[section][key];
+      if (base === undefined) {
+        result[key] = value;
+      } else if (key in result && JSON.stringify(base) !== JSON.stringify(value)) {
+        result[key] = value;
+      }
+    }
+
+    for (const key of Object.keys(baseline[section])) {
+      if (!(key in local[section])) {
+        delete result[key];
+      }
+    }
+
+    merged[section] = result;
+  }
+
+  return merged;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create lockPath exclusively, waiting for another process to release it
+ * (locks left behind by a crashed process are broken after STALE_LOCK_MS)
+ */
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await open(lockPath, 'wx', 0o600)).close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        unlinkSync(lockPath);
+        continue;
+      }
+    } catch {
+      continue; // Released in the meantime
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await sleep(20);
+  }
+}
+
+/**
+ * File-backed token store
+ * Keeps a JSON snapshot (keyed by token hash) that is rewritten atomically on
+ * every change, so connected clients survive a redeploy. The file is reloaded
+ * when another process (e.g. the token CLI) changes it, and every write happens
+ * under a lock file and merges the file's current contents first, so writes
+ * from several processes don't undo each other
+ */
+export class FileTokenStore extends MemoryTokenStore {
+  private filePath: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  // Writes queued or in flight; the file lags memory until they finish
+  private writesPending = 0;
+  private loadedMtimeMs = 0;
+  // State last read from or written to the file
+  private baseline: StoreSnapshot = emptySnapshot();
+
+  constructor(filePath: string, options: TokenStoreOptions = {}) {
+    super(options);
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private readFile(): StoreSnapshot {
+    const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as TokenStoreFile;
+    return {
+      clients: data.clients || {},
+      authorizationCodes: data.authorizationCodes || {},
+      accessTokens: data.accessTokens || {},
+      refreshTokens: data.refreshTokens || {},
+    };
+  }
+
+  private toSnapshot(): StoreSnapshot {
+    return {
+      clients: Object.fromEntries(this.clients),
+      authorizationCodes: Object.fromEntries(this.authorizationCodes),
+      accessTokens: Object.fromEntries(this.accessTokens),
+      refreshTokens: Object.fromEntries(this.refreshTokens),
+    };
+  }
+
+  private applySnapshot(snapshot: StoreSnapshot): void {
+    this.clients = new Map(Object.entries(snapshot.clients)) as Map<string, OAuthClient>;
+    this.authorizationCodes = new Map(Object.entries(snapshot.authorizationCodes)) as Map<string, AuthorizationSession>;
+    this.accessTokens = new Map(Object.entries(snapshot.accessTokens)) as Map<string, AccessToken>;
+    this.refreshTokens = new Map(Object.entries(snapshot.refreshTokens)) as Map<string, RefreshToken>;
+    this.baseline = snapshot;
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+      this.applySnapshot(this.readFile());
+      logger.info('Loaded OAuth token store', {
+        path: this.filePath,
+        clients: this.clients.size,
+        accessTokens: this.accessTokens.size,
+      });
+    } catch (error) {
+      logger.error('Failed to load OAuth token store, starting empty', { path: this.filePath }, error as Error);
+    }
+  }
+
+  protected reloadIfChanged(): void {
+    // Reloading now would replace newer in-memory state with the older snapshot on disk
+    if (this.writesPending > 0) {
+      return;
+    }
+
+    try {
+      if (existsSync(this.filePath) && statSync(this.filePath).mtimeMs !== this.loadedMtimeMs) {
+        this.load();
+      }
+    } catch (error) {
+      logger.error('Failed to check OAuth token store for changes', { path: this.filePath }, error as Error);
+    }
+  }
+
+  protected async onChange(): Promise<void> {
+    const lockPath = `${this.filePath}.lock`;
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writesPending++;
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        await acquireLock(lockPath);
+        try {
+          // Another process may have written since we last synced; keep its changes
+          const disk = existsSync(this.filePath) ? this.readFile() : emptySnapshot();
+          const merged = mergeSnapshot(disk, this.baseline, this.toSnapshot());
+          this.applySnapshot(merged);
+
+          const snapshot: TokenStoreFile = { version: 1, ...merged } as TokenStoreFile;
+          const tmpPath = `${this.filePath}.tmp`;
+          await writeFile(tmpPath, JSON.stringify(snapshot), { mode: 0o600 });
+          await rename(tmpPath, this.filePath);
+          // Remember our own write so it isn't mistaken for an external change
+          this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+        } finally {
+          await unlink(lockPath).catch(() => {});
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to persist OAuth token store', { path: this.filePath }, error as Error);
+      })
+      .finally(() => {
+        this.writesPending--;
+      });
+
+    await this.pendingWrite;
+  }
+
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
@@ -0,0 +1,47 @@
+// OAuth Type Definitions
+
+// Client registered through the dynamic client registration endpoint (RFC 7591)
+export interface OAuthClient {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  grantTypes: string[];
+  responseTypes: string[];
+  scope: string; // Space-separated scopes the client may request
+  tokenEndpointAuthMethod: 'none';
+  clientIdIssuedAt: number; // Seconds since epoch
+}
+
+export interface AuthorizationSession {
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  redirectUri: string;
+  clientId: string;
+  scope: string;
+  state: string;
+  resource: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Access tokens are stored by hash, so the plaintext token is never part of the record
+export interface AccessToken {
+  clientId: string;
+  scope: string;
+  resource: string;
+  familyId: string; // Shared with the refresh token chain it was issued from
+  expiresAt: number;
+  createdAt: number;
+}
+
+// Refresh tokens rotate on every use; each rotation stays in the same family
+// so reuse of an old token can revoke the whole chain
+export interface RefreshToken {
+  clientId: string;
+  scope: string;
+  resource: string;
+  familyId: string;
+  expiresAt: number;
+  createdAt: number;
+  usedAt?: number; // Set once the token has been exchanged
+}
@@ -5,14 +5,26 @@ import {
   HAHistoryParams,
   HAServiceDomain,
 } from './types.js';
+import { metrics, endpointLabel } from '../utils/metrics.js';
+import {
+  fetchWithRetry,
+  isIdempotentMethod,
+  fetchFailureDetail,
+  isRetryableStatus,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from '../utils/retry.js';
+import { HAAPIError } from '../utils/errors.js';
 
 export class HAClient {
   private baseUrl: string;
   private token: string;
+  private retryPolicy: RetryPolicy;
 
   constructor(config: HAConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.token = config.token;
+    this.retryPolicy = config.retryPolicy || DEFAULT_RETRY_POLICY;
   }
 
   private async request<T>(
@@ -20,28 +32,33 @@ export class HAClient {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const method = options.method || 'GET';
 
-    // Create abort controller for timeout (30 seconds for HA requests)
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000);
+    const startTime = Date.now();
+    let status = 'error';
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${this.token}`,
-          'Content-Type': 'application/json',
-          ...options.headers,
+      // Timeout is per attempt (30 seconds for HA requests); transient failures are retried
+      const response = await fetchWithRetry(
+        url,
+        {
+          ...options,
+          headers: {
+            'Authorization': `Bearer ${this.token}`,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
         },
-        signal: controller.signal,
-      });
+        { upstream: 'Home Assistant API', timeoutMs: 30000, policy: this.retryPolicy }
+      );
 
-      clearTimeout(timeout);
+      status = String(response.status);
 
       if (!response.ok) {
         let errorMessage = response.statusText;
+        let errorBody: string | undefined;
         try {
-          const errorBody = await response.text();
+          errorBody = await response.text();
           try {
             const errorJson = JSON.parse(errorBody);
             errorMessage = errorJson.message || JSON.stringify(errorJson);
@@ -52,22 +69,44 @@ export class HAClient {
           // Use statusText if we can't read the body
         }
 
-        throw new Error(
-          `Home Assistant API error (${response.status}): ${errorMessage}`
-        );
+        throw new HAAPIError(`Home Assistant API error (${response.status}): ${errorMessage}`, {
+          method,
+          endpoint,
+          statusCode: response.status,
+          body: errorBody?.substring(0, 1000),
+          detail: errorMessage,
+          retryable: isRetryableStatus(response.status),
+        });
       }
 
       return response.json() as Promise<T>;
     } catch (error) {
-      clearTimeout(timeout);
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Home Assistant API request timed out');
-        }
+      if (error instanceof HAAPIError) {
         throw error;
       }
-      throw new Error(`Home Assistant API request failed: ${String(error)}`);
+
+      // No response arrived: a network failure may clear up later, and so may a timeout, unless the
+      // method isn't idempotent (the timed-out request may still complete upstream)
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      if (timedOut) {
+        status = 'timeout';
+      }
+      const detail = timedOut ? 'request timed out after 30s' : fetchFailureDetail(error);
+      throw new HAAPIError(timedOut ? 'Home Assistant API request timed out' : `Home Assistant API request failed: ${detail}`, {
+        method,
+        endpoint,
+        detail,
+        retryable: !timedOut || isIdempotentMethod(method),
+        cause: error,
+      });
+    } finally {
+      metrics.upstreamRequest(
+        'home_assistant',
+        method,
+        endpointLabel(endpoint),
+        status,
+        Date.now() - startTime
+      );
     }
   }
 
@@ -1,6 +1,9 @@
+import { RetryPolicy } from '../utils/retry.js';
+
 export interface HAConfig {
   baseUrl: string;
   token: string;
+  retryPolicy?: RetryPolicy;
 }
 
 export interface HAState {
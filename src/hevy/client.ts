@@ -1,6 +1,7 @@
 import {
   HevyConfig,
   Workout,
+  WorkoutExercise,
   CreateWorkoutInput,
   UpdateWorkoutInput,
   WorkoutCountResponse,
@@ -16,20 +17,122 @@ import {
   CreateFolderInput,
   WebhookSubscription,
   CreateWebhookInput,
+  WebhookEvent,
   PaginationParams,
   WorkoutQueryParams,
   LiftGoal,
   LiftProgressionResult,
   WorkoutSummaryItem,
+  VolumePeriod,
+  VolumeTotals,
+  TrainingVolumeBucket,
+  TrainingVolumeReport,
+  BalanceRatioName,
+  RatioRange,
+  MuscleBalanceReport,
+  PersonalRecordTimeline,
+  OneRepMaxFormula,
 } from './types.js';
+import { metrics, endpointLabel } from '../utils/metrics.js';
+import {
+  fetchWithRetry,
+  isIdempotentMethod,
+  fetchFailureDetail,
+  isRetryableStatus,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from '../utils/retry.js';
+import { HevyAPIError } from '../utils/errors.js';
+import { RequestScheduler, DEFAULT_SCHEDULER_CONFIG } from '../utils/scheduler.js';
+import { WorkoutMirror } from './workout-mirror.js';
+import { ExerciseTemplateCache, DEFAULT_EXERCISE_CACHE_CONFIG } from './exercise-cache.js';
+import { computeBalanceRatios, DEFAULT_BALANCE_THRESHOLDS } from './muscle-balance.js';
+import { computeRecordTimeline } from './personal-records.js';
+import { estimateOneRepMax, DEFAULT_ONE_REP_MAX_FORMULA } from './one-rep-max.js';
+
+// Start of the week (Monday) or month containing date, in local time
+function periodStart(date: Date, period: VolumePeriod): Date {
+  if (period === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
+
+function addPeriods(date: Date, period: VolumePeriod, n: number): Date {
+  return period === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + n, 1)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7 * n);
+}
+
+// YYYY-MM-DD in local time
+function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): VolumeTotals {
+  return { hardSets: 0, tonnageKg: 0, reps: 0 };
+}
+
+// A workout exercise paired with its template (undefined for unknown IDs)
+interface JoinedExercise {
+  exercise: WorkoutExercise;
+  template?: ExerciseTemplate;
+}
+
+/**
+ * Add the non-warmup sets of exercises to per-muscle totals, crediting secondary
+ * muscle groups secondaryWeight of each set, and to overall totals (each set once)
+ */
+function accumulateMuscleVolume(
+  exercises: JoinedExercise[],
+  secondaryWeight: number,
+  muscles: Map<string, VolumeTotals>,
+  totals: VolumeTotals
+): void {
+  const credit = (muscle: string, set: VolumeTotals, weight: number) => {
+    const muscleTotals = muscles.get(muscle) || emptyTotals();
+    muscleTotals.hardSets += set.hardSets * weight;
+    muscleTotals.tonnageKg += set.tonnageKg * weight;
+    muscleTotals.reps += set.reps * weight;
+    muscles.set(muscle, muscleTotals);
+  };
+
+  for (const { exercise, template } of exercises) {
+    for (const set of exercise.sets) {
+      if (set.type === 'warmup') continue;
+
+      const reps = set.reps || 0;
+      const volume: VolumeTotals = { hardSets: 1, tonnageKg: (set.weight_kg || 0) * reps, reps };
+      credit(template?.primary_muscle_group || 'unknown', volume, 1);
+      (template?.secondary_muscle_groups || []).forEach((muscle) => credit(muscle, volume, secondaryWeight));
+
+      totals.hardSets += volume.hardSets;
+      totals.tonnageKg += volume.tonnageKg;
+      totals.reps += volume.reps;
+    }
+  }
+}
 
 export class HevyClient {
   private apiKey: string;
   private baseUrl: string;
+  private retryPolicy: RetryPolicy;
+  // Every request, from every session sharing this client, draws from one concurrency and rate budget
+  private scheduler: RequestScheduler;
+  private oneRepMaxFormula: OneRepMaxFormula;
 
   constructor(config: HevyConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://api.hevyapp.com';
+    this.retryPolicy = config.retryPolicy || DEFAULT_RETRY_POLICY;
+    this.scheduler = new RequestScheduler(config.scheduler || DEFAULT_SCHEDULER_CONFIG);
+    this.exerciseTemplates = new ExerciseTemplateCache(
+      () => this.fetchAllExerciseTemplates(),
+      config.exerciseCache || DEFAULT_EXERCISE_CACHE_CONFIG
+    );
+    this.oneRepMaxFormula = config.oneRepMaxFormula || DEFAULT_ONE_REP_MAX_FORMULA;
   }
 
   /**
@@ -52,28 +155,33 @@ export class HevyClient {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const method = options.method || 'GET';
 
-    // Create abort controller for timeout (60 seconds for API requests)
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 60000);
+    const startTime = Date.now();
+    let status = 'error';
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'api-key': this.apiKey,
-          'Content-Type': 'application/json',
-          ...options.headers,
+      // Timeout is per attempt (60 seconds for API requests); transient failures are retried
+      const response = await fetchWithRetry(
+        url,
+        {
+          ...options,
+          headers: {
+            'api-key': this.apiKey,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
         },
-        signal: controller.signal,
-      });
+        { upstream: 'Hevy API', timeoutMs: 60000, policy: this.retryPolicy, scheduler: this.scheduler }
+      );
 
-      clearTimeout(timeout);
+      status = String(response.status);
 
       if (!response.ok) {
         let errorMessage = response.statusText;
+        let errorBody: string | undefined;
         try {
-          const errorBody = await response.text();
+          errorBody = await response.text();
           // Try to parse as JSON first
           try {
             const errorJson = JSON.parse(errorBody);
@@ -90,22 +198,44 @@ export class HevyClient {
           // If we can't read the body, just use statusText
         }
 
-        throw new Error(
-          `Hevy API error (${response.status}): ${errorMessage}`
-        );
+        throw new HevyAPIError(`Hevy API error (${response.status}): ${errorMessage}`, {
+          method,
+          endpoint,
+          statusCode: response.status,
+          body: errorBody?.substring(0, 1000),
+          detail: errorMessage,
+          retryable: isRetryableStatus(response.status),
+        });
       }
 
       return response.json() as Promise<T>;
     } catch (error) {
-      clearTimeout(timeout);
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Hevy API request timed out');
-        }
+      if (error instanceof HevyAPIError) {
         throw error;
       }
-      throw new Error(`Hevy API request failed: ${String(error)}`);
+
+      // No response arrived: a network failure may clear up later, and so may a timeout, unless the
+      // method isn't idempotent (the timed-out request may still complete upstream)
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      if (timedOut) {
+        status = 'timeout';
+      }
+      const detail = timedOut ? 'request timed out after 60s' : fetchFailureDetail(error);
+      throw new HevyAPIError(timedOut ? 'Hevy API request timed out' : `Hevy API request failed: ${detail}`, {
+        method,
+        endpoint,
+        detail,
+        retryable: !timedOut || isIdempotentMethod(method),
+        cause: error,
+      });
+    } finally {
+      metrics.upstreamRequest(
+        'hevy',
+        method,
+        endpointLabel(endpoint),
+        status,
+        Date.now() - startTime
+      );
     }
   }
 
@@ -163,8 +293,13 @@ export class HevyClient {
     return this.request<WorkoutCountResponse>('/v1/workouts/count');
   }
 
-  async getWorkoutEvents(sinceDate: string): Promise<WorkoutEvent[]> {
-    const queryParams = new URLSearchParams({ since: sinceDate });
+  async getWorkoutEvents(sinceDate: string, params: PaginationParams = {}): Promise<WorkoutEvent[]> {
+    const { page = 0, pageSize = 10 } = params;
+    const queryParams = new URLSearchParams({
+      since: sinceDate,
+      page: String(page),
+      pageSize: String(pageSize),
+    });
     const response = await this.request<{ events: WorkoutEvent[] }>(
       `/v1/workouts/events?${queryParams.toString()}`
     );
@@ -300,7 +435,7 @@ export class HevyClient {
       return await this.request<WebhookSubscription>('/v1/webhooks/subscription');
     } catch (error) {
       // Return null if no subscription exists (404)
-      if (error instanceof Error && error.message.includes('404')) {
+      if (error instanceof HevyAPIError && error.statusCode === 404) {
         return null;
       }
       throw error;
@@ -324,54 +459,124 @@ export class HevyClient {
 
   // ===== Aggregation Methods (Optimized for AI assistants) =====
 
-  // Cache for exercise templates to avoid repeated API calls
-  private exerciseTemplateCache: ExerciseTemplate[] | null = null;
+  // Cache for exercise templates to avoid repeated API calls (TTL, optionally persisted)
+  private exerciseTemplates: ExerciseTemplateCache;
 
   /**
-   * Ensure exercise templates are cached and return a Map of ID -> title
-   * Useful for resolving exercise names in workout responses
+   * Drop cached data affected by a change so the next call refetches it
+   * Called when a webhook reports that Hevy data changed. Workout and routine events
+   * leave exercise templates alone; a change of unknown kind (custom exercises may
+   * have been added) drops everything
    */
-  async getExerciseNameMap(): Promise<Map<string, string>> {
-    if (!this.exerciseTemplateCache) {
-      await this.searchExerciseTemplates('');
+  invalidateCaches(event?: WebhookEvent): void {
+    if (!event) {
+      this.exerciseTemplates.invalidate();
+    }
+    if (!event || event.startsWith('workout.')) {
+      this.workoutMirror?.markStale();
     }
-    return new Map(this.exerciseTemplateCache!.map((t) => [t.id, t.title]));
+  }
+
+  /**
+   * Page through every exercise template (standard and custom)
+   */
+  private async fetchAllExerciseTemplates(): Promise<ExerciseTemplate[]> {
+    const allTemplates: ExerciseTemplate[] = [];
+    let page = 0;
+    const pageSize = 100; // Max allowed
+    let hasMore = true;
+
+    while (hasMore) {
+      const templates = await this.getExerciseTemplates({ page, pageSize });
+      allTemplates.push(...templates);
+      hasMore = templates.length === pageSize;
+      page++;
+    }
+
+    return allTemplates;
+  }
+
+  /**
+   * Refetch exercise templates now, ignoring the cache TTL
+   * Returns the new template list and the templates that weren't cached before
+   */
+  async refreshExerciseTemplates(): Promise<{ templates: ExerciseTemplate[]; added: ExerciseTemplate[] }> {
+    const previousIds = new Set((this.exerciseTemplates.peek() || []).map((t) => t.id));
+    const templates = await this.exerciseTemplates.refresh();
+    return { templates, added: templates.filter((t) => !previousIds.has(t.id)) };
+  }
+
+  /**
+   * Return a Map of exercise template ID -> title
+   * Useful for resolving exercise names in workout responses; templates are refetched
+   * once if any of templateIds isn't cached yet
+   */
+  async getExerciseNameMap(templateIds: Iterable<string> = []): Promise<Map<string, string>> {
+    const templates = await this.exerciseTemplates.getIncluding(templateIds);
+    return new Map(templates.map((t) => [t.id, t.title]));
+  }
+
+  /**
+   * Pair each exercise in a workout with its template (undefined for unknown IDs)
+   * The join behind every aggregation that needs exercise names or muscle groups
+   */
+  private async joinExerciseTemplates(workouts: Workout[]): Promise<{ workout: Workout; exercises: JoinedExercise[] }[]> {
+    const templateIds = workouts.flatMap((w) => w.exercises.map((ex) => ex.exercise_template_id));
+    const templates = new Map((await this.exerciseTemplates.getIncluding(templateIds)).map((t) => [t.id, t]));
+    return workouts.map((workout) => ({
+      workout,
+      exercises: workout.exercises.map((exercise) => ({
+        exercise,
+        template: templates.get(exercise.exercise_template_id),
+      })),
+    }));
   }
 
   /**
    * Search exercise templates by name (case-insensitive)
-   * Caches all templates on first call for fast subsequent searches
+   * Served from the template cache for fast searches
    */
   async searchExerciseTemplates(query: string): Promise<ExerciseTemplate[]> {
-    // Load and cache all exercise templates if not already cached
-    if (!this.exerciseTemplateCache) {
-      const allTemplates: ExerciseTemplate[] = [];
-      let page = 0;
-      const pageSize = 100; // Max allowed
-      let hasMore = true;
-
-      while (hasMore) {
-        const templates = await this.getExerciseTemplates({ page, pageSize });
-        allTemplates.push(...templates);
-        hasMore = templates.length === pageSize;
-        page++;
-      }
-
-      this.exerciseTemplateCache = allTemplates;
-    }
+    const templates = await this.exerciseTemplates.get();
 
     // Filter by query (case-insensitive)
     const lowerQuery = query.toLowerCase();
-    return this.exerciseTemplateCache.filter(
+    return templates.filter(
       (t) => t.title.toLowerCase().includes(lowerQuery)
     );
   }
 
+  // Local copy of the workout history, when enabled
+  private workoutMirror: WorkoutMirror | null = null;
+
+  /**
+   * Serve workout history for aggregation methods from a local mirror
+   */
+  useWorkoutMirror(mirror: WorkoutMirror): void {
+    this.workoutMirror = mirror;
+  }
+
+  hasWorkoutMirror(): boolean {
+    return this.workoutMirror !== null;
+  }
+
+  /**
+   * Wait for pending writes of the exercise template cache and workout mirror
+   */
+  async flush(): Promise<void> {
+    await this.exerciseTemplates.flush();
+    await this.workoutMirror?.flush();
+  }
+
   /**
    * Get recent workouts with full details (exercises and sets)
-   * Fetches workout list and then details in parallel
+   * Reads the workout mirror when enabled; otherwise fetches the workout list and then details in parallel
    */
   async getRecentWorkoutsWithDetails(count: number = 10): Promise<Workout[]> {
+    if (this.workoutMirror) {
+      return this.workoutMirror.getRecentWorkouts(count);
+    }
+
     // Fetch workout list (may need multiple pages)
     const pageSize = 10; // Hevy API max is 10
     const pages = Math.ceil(count / pageSize);
@@ -385,7 +590,35 @@ export class HevyClient {
 
     const workoutSummaries = workoutLists.flat().slice(0, count);
 
-    // Fetch full details for each workout in parallel
+    // Fetch full details for each workout in parallel (the scheduler bounds the fan-out)
+    const detailedWorkouts = await Promise.all(
+      workoutSummaries.map((w) => this.getWorkout(w.id))
+    );
+
+    return detailedWorkouts;
+  }
+
+  /**
+   * Get every workout started at or after start, with full details
+   * Reads the workout mirror when enabled; otherwise pages the workout list from that date
+   */
+  async getWorkoutsWithDetailsSince(start: Date): Promise<Workout[]> {
+    if (this.workoutMirror) {
+      return this.workoutMirror.getWorkoutsSince(start);
+    }
+
+    const pageSize = 10; // Hevy API max is 10
+    const workoutSummaries: Workout[] = [];
+    for (let page = 0; ; page++) {
+      const workouts = await this.getWorkouts({ page, pageSize, startDate: toLocalDateString(start) });
+      const inRange = workouts.filter((w) => new Date(w.start_time).getTime() >= start.getTime());
+      workoutSummaries.push(...inRange);
+      // Pages are newest first, so a workout before start means the rest are older too
+      // (this also bounds the walk if the API ignores startDate)
+      if (workouts.length < pageSize || inRange.length < workouts.length) break;
+    }
+
+    // Fetch full details for each workout in parallel (the scheduler bounds the fan-out)
     const detailedWorkouts = await Promise.all(
       workoutSummaries.map((w) => this.getWorkout(w.id))
     );
@@ -400,17 +633,26 @@ export class HevyClient {
     count: number = 10,
     exerciseFilter?: string
   ): Promise<WorkoutSummaryItem[]> {
-    // Ensure exercise templates are cached
-    if (!this.exerciseTemplateCache) {
-      await this.searchExerciseTemplates('');
-    }
+    return this.summarizeWorkouts(await this.getRecentWorkoutsWithDetails(count), exerciseFilter);
+  }
 
-    const workouts = await this.getRecentWorkoutsWithDetails(count);
-    const templateMap = new Map(
-      this.exerciseTemplateCache!.map((t) => [t.id, t.title])
-    );
+  /**
+   * Get summaries of every workout started at or after start, with exercise names resolved
+   */
+  async getWorkoutSummariesSince(
+    start: Date,
+    exerciseFilter?: string
+  ): Promise<WorkoutSummaryItem[]> {
+    return this.summarizeWorkouts(await this.getWorkoutsWithDetailsSince(start), exerciseFilter);
+  }
 
-    const summaries: WorkoutSummaryItem[] = workouts.map((workout) => {
+  private async summarizeWorkouts(
+    details: Workout[],
+    exerciseFilter?: string
+  ): Promise<WorkoutSummaryItem[]> {
+    const workouts = await this.joinExerciseTemplates(details);
+
+    const summaries: WorkoutSummaryItem[] = workouts.map(({ workout, exercises: joined }) => {
       // Calculate duration
       const start = new Date(workout.start_time);
       const end = new Date(workout.end_time);
@@ -420,8 +662,8 @@ export class HevyClient {
       const mins = durationMins % 60;
       const duration = hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
 
-      const exercises = workout.exercises.map((ex) => {
-        const name = templateMap.get(ex.exercise_template_id) || ex.exercise_template_id;
+      const exercises = joined.map(({ exercise: ex, template }) => {
+        const name = template?.title || ex.exercise_template_id;
 
         // Find best set (highest weight with successful reps)
         let bestSet: { weight_kg: number; reps: number } | undefined;
@@ -464,147 +706,285 @@ export class HevyClient {
   }
 
   /**
-   * Calculate estimated 1RM using Brzycki formula
+   * Training volume per muscle group, bucketed by week (Monday to Sunday) or month
+   * Warmup sets are excluded; secondary muscle groups are credited secondaryWeight of each set
+   */
+  async getTrainingVolume(
+    period: VolumePeriod = 'week',
+    periods: number = 4,
+    secondaryWeight: number = 0.5
+  ): Promise<TrainingVolumeReport> {
+    const now = new Date();
+    const currentStart = periodStart(now, period);
+    const starts = Array.from({ length: periods }, (_, i) => addPeriods(currentStart, period, i - periods + 1));
+    const workouts = await this.joinExerciseTemplates(await this.getWorkoutsWithDetailsSince(starts[0]));
+
+    const buckets = starts.map((start) => ({
+      start,
+      workoutCount: 0,
+      totals: emptyTotals(),
+      muscles: new Map<string, VolumeTotals>(),
+    }));
+
+    for (const { workout, exercises } of workouts) {
+      const startTime = new Date(workout.start_time).getTime();
+      const bucket = [...buckets].reverse().find((b) => startTime >= b.start.getTime());
+      if (!bucket) continue;
+      bucket.workoutCount++;
+      accumulateMuscleVolume(exercises, secondaryWeight, bucket.muscles, bucket.totals);
+    }
+
+    const difference = (current: VolumeTotals, previous: VolumeTotals): VolumeTotals => ({
+      hardSets: current.hardSets - previous.hardSets,
+      tonnageKg: current.tonnageKg - previous.tonnageKg,
+      reps: current.reps - previous.reps,
+    });
+
+    const report: TrainingVolumeBucket[] = buckets.map((bucket, idx) => {
+      const previous = idx > 0 ? buckets[idx - 1] : undefined;
+      // Muscle groups trained last period but not this one still show their drop
+      const muscleNames = new Set([...bucket.muscles.keys(), ...(previous ? previous.muscles.keys() : [])]);
+
+      const muscleGroups = [...muscleNames]
+        .map((muscleGroup) => {
+          const totals = bucket.muscles.get(muscleGroup) || emptyTotals();
+          return {
+            muscleGroup,
+            ...totals,
+            change: previous ? difference(totals, previous.muscles.get(muscleGroup) || emptyTotals()) : undefined,
+          };
+        })
+        .sort((a, b) => b.hardSets - a.hardSets || b.tonnageKg - a.tonnageKg);
+
+      const end = addPeriods(bucket.start, period, 1);
+      end.setDate(end.getDate() - 1);
+
+      return {
+        start: toLocalDateString(bucket.start),
+        end: toLocalDateString(end),
+        inProgress: idx === buckets.length - 1,
+        workoutCount: bucket.workoutCount,
+        totals: bucket.totals,
+        totalsChange: previous ? difference(bucket.totals, previous.totals) : undefined,
+        muscleGroups,
+      };
+    });
+
+    return { period, secondaryWeight, buckets: report };
+  }
+
+  /**
+   * Push:pull, quad:hamstring and upper:lower hard-set ratios over the last lookbackDays,
+   * each flagged when outside its threshold range
+   */
+  async getMuscleBalance(
+    lookbackDays: number = 28,
+    secondaryWeight: number = 0.5,
+    thresholds: Partial<Record<BalanceRatioName, RatioRange>> = {}
+  ): Promise<MuscleBalanceReport> {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - lookbackDays);
+    const workouts = await this.joinExerciseTemplates(await this.getWorkoutsWithDetailsSince(start));
+
+    const muscles = new Map<string, VolumeTotals>();
+    const totals = emptyTotals();
+    workouts.forEach(({ exercises }) => accumulateMuscleVolume(exercises, secondaryWeight, muscles, totals));
+
+    const muscleSets = new Map([...muscles].map(([muscle, volume]) => [muscle, volume.hardSets]));
+
+    return {
+      startDate: toLocalDateString(start),
+      lookbackDays,
+      workoutCount: workouts.length,
+      secondaryWeight,
+      muscleGroups: [...muscleSets]
+        .map(([muscleGroup, hardSets]) => ({ muscleGroup, hardSets }))
+        .sort((a, b) => b.hardSets - a.hardSets),
+      ratios: computeBalanceRatios(muscleSets, {
+        pushPull: thresholds.pushPull ?? DEFAULT_BALANCE_THRESHOLDS.pushPull,
+        quadHamstring: thresholds.quadHamstring ?? DEFAULT_BALANCE_THRESHOLDS.quadHamstring,
+        upperLower: thresholds.upperLower ?? DEFAULT_BALANCE_THRESHOLDS.upperLower,
+      }),
+    };
+  }
+
+  /**
+   * First exercise template whose title contains name (case-insensitive)
+   */
+  private findExerciseTemplate(templates: ExerciseTemplate[], name: string): ExerciseTemplate | undefined {
+    return templates.find((t) => t.title.toLowerCase().includes(name.toLowerCase()));
+  }
+
+  /**
+   * Dated timeline of personal records for one exercise, computed from workout history
+   * (no dependency on the exercise stats endpoint). Covers the full history unless lookbackDays is set.
+   * Returns null when no exercise template matches exerciseName.
    */
-  private calculate1RM(weight: number, reps: number): number {
-    if (reps === 1) return weight;
-    if (reps > 12) return weight * (1 + reps / 30); // Rough estimate for high reps
-    return weight * (36 / (37 - reps));
+  async getPersonalRecordTimeline(
+    exerciseName: string,
+    lookbackDays?: number,
+    formula: OneRepMaxFormula = this.oneRepMaxFormula
+  ): Promise<PersonalRecordTimeline | null> {
+    const template = this.findExerciseTemplate(await this.exerciseTemplates.get(), exerciseName);
+    if (!template) {
+      return null;
+    }
+
+    const start = new Date(0);
+    if (lookbackDays !== undefined) {
+      start.setTime(Date.now());
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - lookbackDays);
+    }
+    const workouts = (await this.getWorkoutsWithDetailsSince(start)).filter((w) =>
+      w.exercises.some((ex) => ex.exercise_template_id === template.id)
+    );
+
+    return {
+      exerciseName: template.title,
+      exerciseId: template.id,
+      formula,
+      workoutCount: workouts.length,
+      events: computeRecordTimeline(workouts, template.id, formula),
+    };
   }
 
   /**
    * Get lift progression data for specific exercises with optional goals
+   * 1RM estimates use formula (default: the server's configured formula)
    */
   async getLiftProgression(
     exercises: LiftGoal[],
-    lookbackDays: number = 90
+    lookbackDays: number = 90,
+    formula: OneRepMaxFormula = this.oneRepMaxFormula
   ): Promise<LiftProgressionResult[]> {
-    // Ensure exercise templates are cached
-    if (!this.exerciseTemplateCache) {
-      await this.searchExerciseTemplates('');
-    }
+    const templates = await this.exerciseTemplates.get();
 
-    const results: LiftProgressionResult[] = [];
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - lookbackDays);
     const startDateStr = startDate.toISOString().split('T')[0];
 
-    for (const goal of exercises) {
-      // Find matching exercise template
-      const matches = this.exerciseTemplateCache!.filter(
-        (t) => t.title.toLowerCase().includes(goal.name.toLowerCase())
-      );
-
-      if (matches.length === 0) {
-        results.push({
-          exerciseName: goal.name,
-          exerciseId: 'NOT_FOUND',
-          goalKg: goal.goalKg,
-          personalRecords: [],
-          trend: 'insufficient_data',
-          recentSessions: [],
-        });
-        continue;
-      }
+    // Exercises are analyzed in parallel (the scheduler bounds the fan-out)
+    return Promise.all(
+      exercises.map((goal) => this.getSingleLiftProgression(goal, templates, startDateStr, formula))
+    );
+  }
 
-      // Use first (best) match
-      const template = matches[0];
+  /**
+   * Progression for one exercise since startDateStr (YYYY-MM-DD)
+   */
+  private async getSingleLiftProgression(
+    goal: LiftGoal,
+    templates: ExerciseTemplate[],
+    startDateStr: string,
+    formula: OneRepMaxFormula
+  ): Promise<LiftProgressionResult> {
+    // Find matching exercise template (first, best match)
+    const template = this.findExerciseTemplate(templates, goal.name);
+
+    if (!template) {
+      return {
+        exerciseName: goal.name,
+        exerciseId: 'NOT_FOUND',
+        goalKg: goal.goalKg,
+        formula,
+        personalRecords: [],
+        trend: 'insufficient_data',
+        recentSessions: [],
+      };
+    }
 
-      // Get exercise stats for PRs and 1RM
-      let stats: ExerciseStats | null = null;
-      try {
-        stats = await this.getExerciseStats(template.id);
-      } catch {
-        // Stats might not be available
+    // Get exercise stats (PRs and 1RM) and progress (trend analysis) in parallel
+    const [stats, progress] = await Promise.all([
+      // Stats might not be available
+      this.getExerciseStats(template.id).catch((): ExerciseStats | null => null),
+      // Progress might not be available
+      this.getExerciseProgress({
+        exercise_template_id: template.id,
+        start_date: startDateStr,
+        limit: 100,
+      }).catch((): ExerciseProgress[] => []),
+    ]);
+
+    const getMax1RM = (sessions: ExerciseProgress[]) => {
+      let max = 0;
+      for (const session of sessions) {
+        for (const set of session.sets) {
+          if (set.type !== 'warmup') {
+            const e1rm = estimateOneRepMax(set, formula);
+            if (e1rm !== undefined && e1rm > max) max = e1rm;
+          }
+        }
       }
+      return max;
+    };
 
-      // Get exercise progress for trend analysis
-      let progress: ExerciseProgress[] = [];
-      try {
-        progress = await this.getExerciseProgress({
-          exercise_template_id: template.id,
-          start_date: startDateStr,
-          limit: 100,
-        });
-      } catch {
-        // Progress might not be available
-      }
+    // Calculate trend from progress data
+    let trend: 'improving' | 'plateau' | 'declining' | 'insufficient_data' = 'insufficient_data';
+    let trendDeltaKg: number | undefined;
 
-      // Calculate trend from progress data
-      let trend: 'improving' | 'plateau' | 'declining' | 'insufficient_data' = 'insufficient_data';
-      let trendDeltaKg: number | undefined;
-
-      if (progress.length >= 2) {
-        // Calculate best 1RM from first half vs second half
-        const midpoint = Math.floor(progress.length / 2);
-        const firstHalf = progress.slice(midpoint);
-        const secondHalf = progress.slice(0, midpoint);
-
-        const getMax1RM = (sessions: ExerciseProgress[]) => {
-          let max = 0;
-          for (const session of sessions) {
-            for (const set of session.sets) {
-              if (set.weight_kg && set.reps && set.type !== 'warmup') {
-                const e1rm = this.calculate1RM(set.weight_kg, set.reps);
-                if (e1rm > max) max = e1rm;
-              }
-            }
-          }
-          return max;
-        };
+    if (progress.length >= 2) {
+      // Calculate best 1RM from first half vs second half
+      const midpoint = Math.floor(progress.length / 2);
+      const firstHalf = progress.slice(midpoint);
+      const secondHalf = progress.slice(0, midpoint);
 
-        const firstMax = getMax1RM(firstHalf);
-        const secondMax = getMax1RM(secondHalf);
+      const firstMax = getMax1RM(firstHalf);
+      const secondMax = getMax1RM(secondHalf);
 
-        if (firstMax > 0 && secondMax > 0) {
-          const delta = secondMax - firstMax;
-          trendDeltaKg = Math.round(delta * 10) / 10;
+      if (firstMax > 0 && secondMax > 0) {
+        const delta = secondMax - firstMax;
+        trendDeltaKg = Math.round(delta * 10) / 10;
 
-          if (delta > 2.5) trend = 'improving';
-          else if (delta < -2.5) trend = 'declining';
-          else trend = 'plateau';
-        }
+        if (delta > 2.5) trend = 'improving';
+        else if (delta < -2.5) trend = 'declining';
+        else trend = 'plateau';
       }
+    }
 
-      // Format recent sessions (last 5)
-      const recentSessions = progress.slice(0, 5).map((p) => {
-        const topSets = p.sets
-          .filter((s) => s.weight_kg && s.reps && s.type !== 'warmup')
-          .sort((a, b) => (b.weight_kg || 0) - (a.weight_kg || 0))
-          .slice(0, 3)
-          .map((s) => ({ weight_kg: s.weight_kg!, reps: s.reps! }));
+    // Format recent sessions (last 5)
+    const recentSessions = progress.slice(0, 5).map((p) => {
+      const topSets = p.sets
+        .filter((s) => s.weight_kg && s.reps && s.type !== 'warmup')
+        .sort((a, b) => (b.weight_kg || 0) - (a.weight_kg || 0))
+        .slice(0, 3)
+        .map((s) => ({ weight_kg: s.weight_kg!, reps: s.reps! }));
 
-        return {
-          date: p.date,
-          workoutId: p.workout_id,
-          topSets,
-        };
-      });
+      return {
+        date: p.date,
+        workoutId: p.workout_id,
+        topSets,
+      };
+    });
 
-      // Calculate progress toward goal
-      const current1RM = stats?.one_rep_max_kg;
-      let progressPercent: number | undefined;
-      let remainingKg: number | undefined;
+    // Best estimate from the lookback window; Hevy's stats only when no set could be estimated
+    const windowMax1RM = getMax1RM(progress);
+    const current1RM = windowMax1RM > 0 ? Math.round(windowMax1RM * 10) / 10 : stats?.one_rep_max_kg;
+    const currentSource = windowMax1RM > 0 ? 'formula' : current1RM ? 'hevy' : undefined;
 
-      if (goal.goalKg && current1RM) {
-        progressPercent = Math.round((current1RM / goal.goalKg) * 100);
-        remainingKg = Math.max(0, Math.round((goal.goalKg - current1RM) * 10) / 10);
-      }
+    // Calculate progress toward goal
+    let progressPercent: number | undefined;
+    let remainingKg: number | undefined;
 
-      results.push({
-        exerciseName: template.title,
-        exerciseId: template.id,
-        goalKg: goal.goalKg,
-        currentEstimated1RM: current1RM,
-        progressPercent,
-        remainingKg,
-        personalRecords: stats?.personal_records || [],
-        trend,
-        trendDeltaKg,
-        recentSessions,
-      });
+    if (goal.goalKg && current1RM) {
+      progressPercent = Math.round((current1RM / goal.goalKg) * 100);
+      remainingKg = Math.max(0, Math.round((goal.goalKg - current1RM) * 10) / 10);
     }
 
-    return results;
+    return {
+      exerciseName: template.title,
+      exerciseId: template.id,
+      goalKg: goal.goalKg,
+      formula,
+      currentEstimated1RM: current1RM,
+      currentEstimated1RMSource: currentSource,
+      progressPercent,
+      remainingKg,
+      personalRecords: stats?.personal_records || [],
+      trend,
+      trendDeltaKg,
+      recentSessions,
+    };
   }
 }
@@ -0,0 +1,206 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { writeFile, rename } from 'fs/promises';
+import { dirname } from 'path';
+import { ExerciseTemplate } from './types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How long exercise templates are cached and where they are kept between restarts
+ */
+export interface ExerciseCacheConfig {
+  ttlMs: number; // Templates older than this are refetched
+  staleWhileRevalidate: boolean; // Serve expired templates immediately and refetch in the background
+  filePath?: string; // Persist templates here so cold starts skip the full fetch
+}
+
+export const DEFAULT_EXERCISE_CACHE_CONFIG: ExerciseCacheConfig = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  staleWhileRevalidate: false,
+};
+
+// On-disk format of the exercise template cache
+interface ExerciseCacheFile {
+  version: 1;
+  fetchedAt: string;
+  templates: ExerciseTemplate[];
+}
+
+/**
+ * Exercise templates with a TTL, explicit invalidation and optional persistence
+ * loader fetches the full template list; concurrent callers share one fetch
+ */
+export class ExerciseTemplateCache {
+  private templates: ExerciseTemplate[] | null = null;
+  private fetchedAt: number | null = null;
+  private invalidated = false;
+  private inFlightRefresh: Promise<ExerciseTemplate[]> | null = null;
+  // IDs still unknown after a miss-triggered refetch (e.g. deleted templates); they don't trigger another
+  private unresolvedIds = new Set<string>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private loader: () => Promise<ExerciseTemplate[]>,
+    private config: ExerciseCacheConfig = DEFAULT_EXERCISE_CACHE_CONFIG
+  ) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.config.filePath || !existsSync(this.config.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.config.filePath, 'utf-8')) as ExerciseCacheFile;
+      this.templates = data.templates;
+      this.fetchedAt = new Date(data.fetchedAt).getTime();
+      logger.info('Loaded exercise template cache', {
+        path: this.config.filePath,
+        templates: data.templates.length,
+        fetchedAt: data.fetchedAt,
+      });
+    } catch (error) {
+      logger.error('Failed to load exercise template cache, refetching on first use', { path: this.config.filePath }, error as Error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const filePath = this.config.filePath;
+    if (!filePath || !this.templates || this.fetchedAt === null) {
+      return;
+    }
+
+    const snapshot: ExerciseCacheFile = {
+      version: 1,
+      fetchedAt: new Date(this.fetchedAt).toISOString(),
+      templates: this.templates,
+    };
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        mkdirSync(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(snapshot), { mode: 0o600 });
+        await rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to persist exercise template cache', { path: filePath }, error as Error);
+      });
+
+    await this.pendingWrite;
+  }
+
+  private isFresh(): boolean {
+    return !this.invalidated && this.fetchedAt !== null && Date.now() - this.fetchedAt < this.config.ttlMs;
+  }
+
+  /**
+   * Cached templates, refetching them first when expired or invalidated
+   * In stale-while-revalidate mode expired templates are returned right away
+   * and refetched in the background
+   */
+  async get(): Promise<ExerciseTemplate[]> {
+    if (this.templates && this.isFresh()) {
+      return this.templates;
+    }
+
+    if (this.templates && this.config.staleWhileRevalidate) {
+      this.refresh().catch((error) => {
+        logger.warn('Background exercise template refresh failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      return this.templates;
+    }
+
+    try {
+      return await this.refresh();
+    } catch (error) {
+      if (!this.templates) {
+        throw error;
+      }
+      // Expired templates beat no templates
+      logger.warn('Exercise template refresh failed, serving cached templates', {
+        fetchedAt: this.fetchedAt === null ? null : new Date(this.fetchedAt).toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.templates;
+    }
+  }
+
+  /**
+   * Cached templates, refetching once when any of ids is missing
+   * (e.g. a workout uses a custom exercise created since the last fetch)
+   */
+  async getIncluding(ids: Iterable<string>): Promise<ExerciseTemplate[]> {
+    const templates = await this.get();
+    const known = new Set(templates.map((t) => t.id));
+    const missing = [...new Set(ids)].filter((id) => !known.has(id) && !this.unresolvedIds.has(id));
+    if (missing.length === 0) {
+      return templates;
+    }
+
+    try {
+      const refreshed = await this.refresh();
+      const refreshedIds = new Set(refreshed.map((t) => t.id));
+      for (const id of missing) {
+        if (!refreshedIds.has(id)) {
+          this.unresolvedIds.add(id);
+        }
+      }
+      return refreshed;
+    } catch (error) {
+      logger.warn('Exercise template refresh for unknown IDs failed, serving cached templates', {
+        missing: missing.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return templates;
+    }
+  }
+
+  /**
+   * Refetch every template now, ignoring the TTL
+   */
+  refresh(): Promise<ExerciseTemplate[]> {
+    if (!this.inFlightRefresh) {
+      // Cleared up front so an invalidation during the fetch triggers another one
+      this.invalidated = false;
+      this.inFlightRefresh = this.loader()
+        .then(async (templates) => {
+          this.templates = templates;
+          this.fetchedAt = Date.now();
+          await this.persist();
+          logger.info('Refreshed exercise template cache', { templates: templates.length });
+          return templates;
+        })
+        .catch((error) => {
+          this.invalidated = true;
+          throw error;
+        })
+        .finally(() => {
+          this.inFlightRefresh = null;
+        });
+    }
+    return this.inFlightRefresh;
+  }
+
+  /**
+   * Treat the cached templates as expired (e.g. a custom exercise was created)
+   */
+  invalidate(): void {
+    this.invalidated = true;
+    this.unresolvedIds.clear();
+  }
+
+  /**
+   * Templates currently held, without fetching (null before the first fetch)
+   */
+  peek(): ExerciseTemplate[] | null {
+    return this.templates;
+  }
+
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
@@ -0,0 +1,61 @@
+import { BalanceRatio, BalanceRatioName, RatioRange } from './types.js';
+
+// Hevy muscle groups on each side of a ratio; the rest (abdominals, cardio, full_body, ...) are left out
+const RATIO_SIDES: Record<BalanceRatioName, { labels: [string, string]; muscles: [string[], string[]] }> = {
+  pushPull: {
+    labels: ['Push', 'Pull'],
+    muscles: [
+      ['chest', 'shoulders', 'triceps'],
+      ['lats', 'upper_back', 'biceps', 'traps'],
+    ],
+  },
+  quadHamstring: {
+    labels: ['Quadriceps', 'Hamstrings'],
+    muscles: [['quadriceps'], ['hamstrings']],
+  },
+  upperLower: {
+    labels: ['Upper', 'Lower'],
+    muscles: [
+      ['chest', 'shoulders', 'triceps', 'biceps', 'forearms', 'lats', 'upper_back', 'traps', 'neck'],
+      ['quadriceps', 'hamstrings', 'glutes', 'calves', 'abductors', 'adductors', 'lower_back'],
+    ],
+  },
+};
+
+export const BALANCE_RATIO_NAMES = Object.keys(RATIO_SIDES) as BalanceRatioName[];
+
+// Acceptable ratio ranges (first side / second side, by hard sets)
+export const DEFAULT_BALANCE_THRESHOLDS: Record<BalanceRatioName, RatioRange> = {
+  pushPull: { min: 0.67, max: 1.5 },
+  quadHamstring: { min: 0.67, max: 1.5 },
+  upperLower: { min: 0.67, max: 2 },
+};
+
+// Fewer hard sets than this on both sides combined is too little to judge
+const MIN_SETS_FOR_RATIO = 4;
+
+/**
+ * Compare hard sets on each side of every ratio and flag those outside their range
+ */
+export function computeBalanceRatios(
+  muscleSets: Map<string, number>,
+  thresholds: Record<BalanceRatioName, RatioRange>
+): BalanceRatio[] {
+  const sumSets = (muscles: string[]) => muscles.reduce((sum, muscle) => sum + (muscleSets.get(muscle) || 0), 0);
+
+  return BALANCE_RATIO_NAMES.map((name) => {
+    const { labels, muscles } = RATIO_SIDES[name];
+    const range = thresholds[name];
+    const first = { label: labels[0], hardSets: sumSets(muscles[0]) };
+    const second = { label: labels[1], hardSets: sumSets(muscles[1]) };
+
+    if (first.hardSets + second.hardSets < MIN_SETS_FOR_RATIO) {
+      return { name, first, second, range, status: 'insufficient_data' };
+    }
+
+    // Undefined when the second side was never trained
+    const ratio = second.hardSets > 0 ? first.hardSets / second.hardSets : undefined;
+    const status = ratio === undefined || ratio > range.max ? 'high' : ratio < range.min ? 'low' : 'balanced';
+    return { name, first, second, ratio, range, status };
+  });
+}
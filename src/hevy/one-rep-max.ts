@@ -0,0 +1,56 @@
+import { ExerciseSet, OneRepMaxFormula } from './types.js';
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'brzycki';
+
+// Every formula diverges badly past this many reps, so higher-rep sets give no estimate
+export const MAX_ESTIMATE_REPS = 15;
+
+// Weight multipliers for a set of `reps` taken to failure
+const FORMULAS: Record<Exclude<OneRepMaxFormula, 'rpe'>, (reps: number) => number> = {
+  epley: (reps) => 1 + reps / 30,
+  brzycki: (reps) => 36 / (37 - reps),
+  lombardi: (reps) => reps ** 0.1,
+  mayhew: (reps) => 100 / (52.2 + 41.9 * Math.exp(-0.055 * reps)),
+  oconner: (reps) => 1 + 0.025 * reps,
+  wathan: (reps) => 100 / (48.8 + 53.8 * Math.exp(-0.075 * reps)),
+};
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  mayhew: 'Mayhew',
+  oconner: "O'Conner",
+  wathan: 'Wathan',
+  rpe: 'RPE-adjusted Epley',
+};
+
+/**
+ * Estimated 1RM for a set, or undefined when it has no weight or too many reps to estimate from
+ * The RPE-adjusted estimate adds reps in reserve (10 - RPE) before applying Epley;
+ * sets without an RPE are treated as taken to failure
+ */
+export function estimateOneRepMax(
+  set: Pick<ExerciseSet, 'weight_kg' | 'reps' | 'rpe'>,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number | undefined {
+  const weight = set.weight_kg || 0;
+  let reps = set.reps || 0;
+  if (weight <= 0 || reps <= 0) {
+    return undefined;
+  }
+
+  if (formula === 'rpe') {
+    const rpe = set.rpe ?? 10;
+    reps += Math.max(0, 10 - Math.min(rpe, 10));
+  }
+
+  if (reps > MAX_ESTIMATE_REPS) {
+    return undefined;
+  }
+  if (reps === 1) {
+    return weight;
+  }
+
+  return weight * FORMULAS[formula === 'rpe' ? 'epley' : formula](reps);
+}
@@ -0,0 +1,106 @@
+import { Workout, PersonalRecordEvent, PersonalRecordKind, OneRepMaxFormula } from './types.js';
+import { estimateOneRepMax } from './one-rep-max.js';
+
+interface Candidate {
+  value: number;
+  weightKg?: number;
+  reps?: number;
+}
+
+/**
+ * Replay workouts (any order) and record every time a personal record was set for one exercise
+ * Warmups are excluded. Each workout is compared against the records standing before it,
+ * so at most one event per record kind (and per weight, for rep PRs) is logged per workout.
+ * Events are returned oldest first; the first workout sets the baseline records.
+ */
+export function computeRecordTimeline(
+  workouts: Workout[],
+  exerciseTemplateId: string,
+  formula: OneRepMaxFormula
+): PersonalRecordEvent[] {
+  const events: PersonalRecordEvent[] = [];
+  const best = new Map<Exclude<PersonalRecordKind, 'rep_pr'>, number>();
+  // Most reps done at each weight
+  const repsAtWeight = new Map<number, number>();
+
+  const chronological = [...workouts].sort(
+    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+  );
+
+  for (const workout of chronological) {
+    // The same exercise can appear more than once in a workout
+    const sets = workout.exercises
+      .filter((ex) => ex.exercise_template_id === exerciseTemplateId)
+      .flatMap((ex) => ex.sets)
+      .filter((set) => set.type !== 'warmup' && (set.reps || 0) > 0);
+    if (sets.length === 0) continue;
+
+    const log = (kind: PersonalRecordKind, candidate: Candidate, previous: number | undefined) => {
+      events.push({
+        kind,
+        date: workout.start_time,
+        workoutId: workout.id,
+        workoutTitle: workout.title,
+        previous,
+        ...candidate,
+      });
+    };
+
+    // Best set in this workout for each single-set record
+    const top = new Map<Exclude<PersonalRecordKind, 'rep_pr' | 'best_session_volume'>, Candidate>();
+    const consider = (kind: 'heaviest_weight' | 'best_e1rm' | 'best_set_volume', candidate: Candidate) => {
+      const current = top.get(kind);
+      if (!current || candidate.value > current.value) {
+        top.set(kind, candidate);
+      }
+    };
+
+    let sessionVolume = 0;
+    const sessionRepsAtWeight = new Map<number, number>();
+
+    for (const set of sets) {
+      const weightKg = set.weight_kg || 0;
+      const reps = set.reps!;
+      sessionVolume += weightKg * reps;
+      sessionRepsAtWeight.set(weightKg, Math.max(sessionRepsAtWeight.get(weightKg) || 0, reps));
+
+      if (weightKg > 0) {
+        consider('heaviest_weight', { value: weightKg, weightKg, reps });
+        const e1rm = estimateOneRepMax(set, formula);
+        if (e1rm !== undefined) {
+          consider('best_e1rm', { value: Math.round(e1rm * 10) / 10, weightKg, reps });
+        }
+        consider('best_set_volume', { value: weightKg * reps, weightKg, reps });
+      }
+    }
+
+    for (const [kind, candidate] of top) {
+      const previous = best.get(kind);
+      if (previous === undefined || candidate.value > previous) {
+        log(kind, candidate, previous);
+        best.set(kind, candidate.value);
+      }
+    }
+
+    if (sessionVolume > 0) {
+      const previous = best.get('best_session_volume');
+      if (previous === undefined || sessionVolume > previous) {
+        log('best_session_volume', { value: sessionVolume }, previous);
+        best.set('best_session_volume', sessionVolume);
+      }
+    }
+
+    // Heaviest weights first, matching how rep PRs are usually read
+    [...sessionRepsAtWeight]
+      .sort(([a], [b]) => b - a)
+      .forEach(([weightKg, reps]) => {
+        const previous = repsAtWeight.get(weightKg);
+        if (previous === undefined || reps > previous) {
+          log('rep_pr', { value: reps, weightKg, reps }, previous);
+          repsAtWeight.set(weightKg, reps);
+        }
+      });
+  }
+
+  return events;
+}
@@ -1,8 +1,16 @@
+import { RetryPolicy } from '../utils/retry.js';
+import { SchedulerConfig } from '../utils/scheduler.js';
+import { ExerciseCacheConfig } from './exercise-cache.js';
+
 // Hevy API Type Definitions
 
 export interface HevyConfig {
   apiKey: string;
   baseUrl?: string;
+  retryPolicy?: RetryPolicy;
+  scheduler?: SchedulerConfig;
+  exerciseCache?: ExerciseCacheConfig;
+  oneRepMaxFormula?: OneRepMaxFormula; // Default for 1RM estimates when a call doesn't choose one
 }
 
 // Workout Types
@@ -164,6 +172,7 @@ export type WebhookEvent =
 export interface CreateWebhookInput {
   url: string;
   events: WebhookEvent[];
+  authToken?: string; // Sent back by Hevy in the Authorization header of each delivery
 }
 
 // API Response Types
@@ -201,6 +210,8 @@ export interface ExerciseProgressParams {
 
 // Aggregation types for optimized queries
 
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'mayhew' | 'oconner' | 'wathan' | 'rpe';
+
 export interface LiftGoal {
   name: string;
   goalKg?: number;
@@ -210,7 +221,10 @@ export interface LiftProgressionResult {
   exerciseName: string;
   exerciseId: string;
   goalKg?: number;
+  formula: OneRepMaxFormula; // Used for currentEstimated1RM and trendDeltaKg
   currentEstimated1RM?: number;
+  // 'hevy' when no recent set could be estimated and Hevy's own exercise stats were used instead
+  currentEstimated1RMSource?: 'formula' | 'hevy';
   progressPercent?: number;
   remainingKg?: number;
   personalRecords: PersonalRecord[];
@@ -223,6 +237,86 @@ export interface LiftProgressionResult {
   }[];
 }
 
+export type VolumePeriod = 'week' | 'month';
+
+export interface VolumeTotals {
+  hardSets: number; // Non-warmup sets
+  tonnageKg: number; // Sum of weight x reps
+  reps: number;
+}
+
+export interface MuscleGroupVolume extends VolumeTotals {
+  muscleGroup: string;
+  change?: VolumeTotals; // Versus the previous bucket (absent for the oldest one)
+}
+
+export interface TrainingVolumeBucket {
+  start: string; // YYYY-MM-DD: Monday of the week or first day of the month
+  end: string; // YYYY-MM-DD, inclusive
+  inProgress: boolean; // The bucket containing today
+  workoutCount: number;
+  totals: VolumeTotals; // Each set counted once, regardless of muscle groups
+  totalsChange?: VolumeTotals;
+  muscleGroups: MuscleGroupVolume[]; // Most hard sets first
+}
+
+export interface TrainingVolumeReport {
+  period: VolumePeriod;
+  secondaryWeight: number; // Fraction of each set credited to secondary muscle groups
+  buckets: TrainingVolumeBucket[]; // Oldest first
+}
+
+export type BalanceRatioName = 'pushPull' | 'quadHamstring' | 'upperLower';
+
+export interface RatioRange {
+  min: number;
+  max: number;
+}
+
+export interface BalanceRatio {
+  name: BalanceRatioName;
+  first: { label: string; hardSets: number };
+  second: { label: string; hardSets: number };
+  ratio?: number; // first / second; absent when the second side has no sets or data is insufficient
+  range: RatioRange;
+  status: 'balanced' | 'high' | 'low' | 'insufficient_data';
+}
+
+export interface MuscleBalanceReport {
+  startDate: string; // YYYY-MM-DD
+  lookbackDays: number;
+  workoutCount: number;
+  secondaryWeight: number;
+  muscleGroups: { muscleGroup: string; hardSets: number }[]; // Most hard sets first
+  ratios: BalanceRatio[];
+}
+
+export type PersonalRecordKind =
+  | 'heaviest_weight'
+  | 'best_e1rm'
+  | 'rep_pr' // Most reps at a given weight
+  | 'best_set_volume'
+  | 'best_session_volume';
+
+export interface PersonalRecordEvent {
+  kind: PersonalRecordKind;
+  date: string;
+  workoutId: string;
+  workoutTitle: string;
+  value: number; // kg, or reps for rep_pr
+  weightKg?: number; // The set that set the record (absent for session volume)
+  reps?: number;
+  previous?: number; // Record it beat (absent for the first)
+}
+
+export interface PersonalRecordTimeline {
+  exerciseName: string;
+  exerciseId: string;
+  formula: OneRepMaxFormula; // Used for best_e1rm
+  workoutCount: number; // Workouts that included the exercise
+  events: PersonalRecordEvent[]; // Oldest first
+}
+
 export interface WorkoutSummaryItem {
   id: string;
   title: string;
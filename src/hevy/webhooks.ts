@@ -0,0 +1,102 @@
+import { WebhookEvent } from './types.js';
+import { logger } from '../utils/logger.js';
+import { WebhookEventSchema } from '../utils/validators.js';
+
+/**
+ * A change in Hevy data reported by a webhook delivery
+ * Fields are best-effort: deliveries that don't identify the event or record
+ * still count as "something changed"
+ */
+export interface HevyChange {
+  event?: WebhookEvent;
+  workoutId?: string;
+  routineId?: string;
+  receivedAt: string;
+}
+
+type HevyChangeListener = (change: HevyChange) => void;
+
+// Anything listening for Hevy changes (cache invalidation, per-session MCP notifications)
+const listeners = new Set<HevyChangeListener>();
+
+// Read a string ID from the first key present, limited to a sane length
+function pickId(source: Record<string, unknown> | undefined, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = source?.[key];
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).length <= 100) {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract a change from a webhook body
+ * Accepts the record ID at the top level or under "payload", in camel or snake case
+ */
+export function parseHevyWebhook(body: unknown): HevyChange {
+  const root = typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+  const payload = typeof root.payload === 'object' && root.payload !== null
+    ? (root.payload as Record<string, unknown>)
+    : undefined;
+
+  const eventName = [root.event, root.type, payload?.event, payload?.type].find(
+    (value): value is WebhookEvent => WebhookEventSchema.safeParse(value).success
+  );
+
+  return {
+    event: eventName,
+    workoutId: pickId(payload, ['workoutId', 'workout_id']) ?? pickId(root, ['workoutId', 'workout_id']),
+    routineId: pickId(payload, ['routineId', 'routine_id']) ?? pickId(root, ['routineId', 'routine_id']),
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Subscribe to Hevy changes; returns a function that unsubscribes
+ */
+export function onHevyChange(listener: HevyChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notify every listener of a change (listener errors are isolated)
+ */
+export function publishHevyChange(change: HevyChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      logger.error('Hevy change listener failed', { event: change.event }, error as Error);
+    }
+  }
+}
+
+/**
+ * Resource URIs affected by a change (see resources/hevy.ts)
+ */
+export function changedResourceUris(change: HevyChange): string[] {
+  const uris: string[] = [];
+  if (change.workoutId) {
+    uris.push(`hevy://workouts/${encodeURIComponent(change.workoutId)}`);
+  }
+  if (change.routineId) {
+    uris.push(`hevy://routines/${encodeURIComponent(change.routineId)}`);
+  }
+  return uris;
+}
+
+/**
+ * One-line description for logging notifications
+ */
+export function describeHevyChange(change: HevyChange): string {
+  const subject = change.workoutId
+    ? `workout ${change.workoutId}`
+    : change.routineId
+      ? `routine ${change.routineId}`
+      : 'Hevy data';
+  return change.event ? `Hevy ${change.event}: ${subject}` : `Hevy webhook received: ${subject} changed`;
+}
@@ -0,0 +1,290 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { writeFile, rename } from 'fs/promises';
+import { dirname } from 'path';
+import { HevyClient } from './client.js';
+import { Workout, WorkoutEvent } from './types.js';
+import { HevyAPIError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+// On-disk format of the workout mirror
+interface WorkoutMirrorFile {
+  version: 1;
+  syncedAt: string | null;
+  workouts: Record<string, Workout>;
+}
+
+// A changed workout, as reported by sync-workouts
+export interface SyncedWorkout {
+  id: string;
+  title?: string;
+}
+
+export interface WorkoutSyncResult {
+  seeded: boolean; // Full history was downloaded rather than applying events
+  created: SyncedWorkout[];
+  updated: SyncedWorkout[];
+  deleted: SyncedWorkout[];
+  total: number;
+  syncedAt: string;
+}
+
+export interface WorkoutMirrorOptions {
+  maxAgeMs?: number; // Reads sync first when the last sync is older than this (default: 5 minutes)
+}
+
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Hevy API max page size for workouts and workout events
+const PAGE_SIZE = 10;
+
+/**
+ * Local copy of the full workout history, seeded once and then kept current
+ * from the workout events feed
+ */
+export class WorkoutMirror {
+  private workouts = new Map<string, Workout>();
+  private syncedAt: string | null = null;
+  private stale = false;
+  private inFlightSync: Promise<WorkoutSyncResult> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private maxAgeMs: number;
+
+  constructor(
+    private client: HevyClient,
+    private filePath: string,
+    options: WorkoutMirrorOptions = {}
+  ) {
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as WorkoutMirrorFile;
+      this.workouts = new Map(Object.entries(data.workouts || {}));
+      this.syncedAt = data.syncedAt;
+      logger.info('Loaded workout mirror', { path: this.filePath, workouts: this.workouts.size });
+    } catch (error) {
+      logger.error('Failed to load workout mirror, reseeding on first use', { path: this.filePath }, error as Error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const snapshot: WorkoutMirrorFile = {
+      version: 1,
+      syncedAt: this.syncedAt,
+      workouts: Object.fromEntries(this.workouts),
+    };
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(snapshot), { mode: 0o600 });
+        await rename(tmpPath, this.filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to persist workout mirror', { path: this.filePath }, error as Error);
+      });
+
+    await this.pendingWrite;
+  }
+
+  /**
+   * Force the next read to sync (e.g. a webhook reported a change)
+   */
+  markStale(): void {
+    this.stale = true;
+  }
+
+  /**
+   * Bring the mirror up to date; concurrent callers share one sync
+   * full re-downloads the whole history instead of applying events
+   */
+  sync(full: boolean = false): Promise<WorkoutSyncResult> {
+    if (!this.inFlightSync) {
+      // Cleared up front so a change reported mid-sync triggers another one
+      this.stale = false;
+      this.inFlightSync = (full || !this.syncedAt ? this.seed() : this.applyEvents(this.syncedAt))
+        .catch((error) => {
+          this.stale = true;
+          throw error;
+        })
+        .finally(() => {
+          this.inFlightSync = null;
+        });
+    }
+    return this.inFlightSync;
+  }
+
+  /**
+   * Download the full history
+   */
+  private async seed(): Promise<WorkoutSyncResult> {
+    // Taken before fetching so changes made during the seed are picked up by the next sync
+    const startedAt = new Date().toISOString();
+    const previous = this.workouts;
+    const workouts = new Map<string, Workout>();
+
+    for (let page = 0; ; page++) {
+      const listed = await this.client.getWorkouts({ page, pageSize: PAGE_SIZE });
+      // Full details for each workout (the scheduler bounds the fan-out)
+      const detailed = await Promise.all(listed.map((w) => this.client.getWorkout(w.id)));
+      detailed.forEach((workout) => workouts.set(workout.id, workout));
+      if (listed.length < PAGE_SIZE) break;
+    }
+
+    const result: WorkoutSyncResult = {
+      seeded: true,
+      created: [],
+      updated: [],
+      deleted: [],
+      total: workouts.size,
+      syncedAt: startedAt,
+    };
+    // Compare with what was mirrored before, so a reseed still reports changes
+    for (const [id, workout] of workouts) {
+      const before = previous.get(id);
+      if (!before) {
+        result.created.push({ id, title: workout.title });
+      } else if (JSON.stringify(before) !== JSON.stringify(workout)) {
+        result.updated.push({ id, title: workout.title });
+      }
+    }
+    for (const [id, workout] of previous) {
+      if (!workouts.has(id)) {
+        result.deleted.push({ id, title: workout.title });
+      }
+    }
+
+    this.workouts = workouts;
+    this.syncedAt = startedAt;
+    await this.persist();
+
+    logger.info('Seeded workout mirror', { workouts: workouts.size });
+    return result;
+  }
+
+  /**
+   * Apply created/updated/deleted events since the last sync
+   */
+  private async applyEvents(since: string): Promise<WorkoutSyncResult> {
+    const startedAt = new Date().toISOString();
+    // Read every page before moving syncedAt, or events past the first page would be skipped for good
+    const events: WorkoutEvent[] = [];
+    for (let page = 0; ; page++) {
+      const pageEvents = await this.client.getWorkoutEvents(since, { page, pageSize: PAGE_SIZE });
+      events.push(...pageEvents);
+      if (pageEvents.length < PAGE_SIZE) break;
+    }
+
+    // Only the latest event per workout matters
+    const latest = new Map<string, 'upsert' | 'delete'>();
+    [...events]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach((event) => latest.set(event.workout_id, event.event_type === 'deleted' ? 'delete' : 'upsert'));
+
+    const result: WorkoutSyncResult = {
+      seeded: false,
+      created: [],
+      updated: [],
+      deleted: [],
+      total: 0,
+      syncedAt: startedAt,
+    };
+
+    const upserts = [...latest].filter(([, action]) => action === 'upsert').map(([id]) => id);
+    const fetched = await Promise.all(
+      upserts.map((id) =>
+        this.client.getWorkout(id).catch((error) => {
+          // Deleted again before we fetched it
+          if (error instanceof HevyAPIError && error.statusCode === 404) {
+            return null;
+          }
+          throw error;
+        })
+      )
+    );
+
+    upserts.forEach((id, idx) => {
+      const workout = fetched[idx];
+      if (!workout) {
+        latest.set(id, 'delete');
+        return;
+      }
+      (this.workouts.has(id) ? result.updated : result.created).push({ id, title: workout.title });
+      this.workouts.set(id, workout);
+    });
+
+    for (const [id, action] of latest) {
+      if (action === 'delete' && this.workouts.has(id)) {
+        result.deleted.push({ id, title: this.workouts.get(id)!.title });
+        this.workouts.delete(id);
+      }
+    }
+
+    result.total = this.workouts.size;
+    this.syncedAt = startedAt;
+    await this.persist();
+
+    return result;
+  }
+
+  /**
+   * Sync if stale; if the sync fails but a previous copy exists, serve that instead
+   */
+  private async ensureFresh(): Promise<void> {
+    const age = this.syncedAt ? Date.now() - new Date(this.syncedAt).getTime() : Infinity;
+    if (!this.stale && age < this.maxAgeMs) {
+      return;
+    }
+
+    try {
+      await this.sync();
+    } catch (error) {
+      if (!this.syncedAt) {
+        throw error;
+      }
+      logger.warn('Workout mirror sync failed, serving last synced copy', {
+        syncedAt: this.syncedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Most recent workouts first
+   */
+  async getRecentWorkouts(count: number): Promise<Workout[]> {
+    await this.ensureFresh();
+    return [...this.workouts.values()]
+      .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime())
+      .slice(0, count);
+  }
+
+  /**
+   * Workouts started at or after start, most recent first
+   */
+  async getWorkoutsSince(start: Date): Promise<Workout[]> {
+    await this.ensureFresh();
+    return [...this.workouts.values()]
+      .filter((w) => new Date(w.start_time).getTime() >= start.getTime())
+      .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+  }
+
+  /**
+   * When the mirror was last brought up to date (null before the first sync)
+   */
+  getSyncedAt(): string | null {
+    return this.syncedAt;
+  }
+
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
@@ -1,14 +1,42 @@
 #!/usr/bin/env node
 
 import dotenv from 'dotenv';
-import { createHevyMCPServer } from './server.js';
+import {
+  createHevyMCPServerFactory,
+  HevyMCPServerFactory,
+  getActiveToolCallCount,
+  waitForActiveToolCalls,
+} from './server.js';
 import { initializeStdioTransport } from './transports/stdio.js';
-import { initializeSSETransport } from './transports/sse.js';
+import {
+  initializeHTTPTransport,
+  stopAcceptingConnections,
+  closeHTTPTransport,
+  HEVY_WEBHOOK_PATH,
+} from './transports/http.js';
+import { setTokenStore, setRedirectPolicy, getTokenStore } from './auth/oauth.js';
+import {
+  DEFAULT_REDIRECT_RULES,
+  parseRedirectRules,
+  parseClientRedirectOverrides,
+} from './auth/redirect-policy.js';
+import { FileTokenStore, MemoryTokenStore } from './auth/token-store.js';
+import { AuditLog, DEFAULT_AUDIT_LOG_OPTIONS } from './audit/audit-log.js';
 import { ConfigurationError } from './utils/errors.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './utils/retry.js';
+import { DEFAULT_SCHEDULER_CONFIG, SchedulerConfig } from './utils/scheduler.js';
+import { DEFAULT_EXERCISE_CACHE_CONFIG, ExerciseCacheConfig } from './hevy/exercise-cache.js';
+import { DEFAULT_ONE_REP_MAX_FORMULA } from './hevy/one-rep-max.js';
+import { OneRepMaxFormulaSchema } from './utils/validators.js';
 
 // Load environment variables
 dotenv.config();
 
+// Tool-call audit log (flushed on shutdown)
+let auditLog: AuditLog | undefined;
+// MCP server factory, whose exercise template cache and workout mirror are flushed on shutdown
+let serverFactory: HevyMCPServerFactory | undefined;
+
 async function main() {
   try {
     // Get configuration from environment variables
@@ -17,10 +45,15 @@ async function main() {
     const haBaseUrl = process.env.HA_BASE_URL;
     const haToken = process.env.HA_TOKEN;
     const transport = process.env.TRANSPORT || 'stdio';
+    // TRANSPORT accepts a comma-separated list (e.g. "sse,http"); "both" is kept as stdio + sse
+    const transports = transport === 'both'
+      ? ['stdio', 'sse']
+      : transport.split(',').map((t) => t.trim()).filter(Boolean);
     const port = parseInt(process.env.PORT || '3000', 10);
     // Use 0.0.0.0 for Railway/production, 127.0.0.1 for local development
     const host = process.env.HOST || (process.env.RAILWAY_ENVIRONMENT ? '0.0.0.0' : '127.0.0.1');
     const ssePath = process.env.SSE_PATH || '/mcp';
+    const streamableHttpPath = process.env.STREAMABLE_HTTP_PATH || '/mcp';
     const heartbeatInterval = parseInt(process.env.HEARTBEAT_INTERVAL || '30000', 10);
     const authToken = process.env.AUTH_TOKEN;
     const sessionTimeout = parseInt(
@@ -30,6 +63,41 @@ async function main() {
     const enableHttps = process.env.ENABLE_HTTPS === 'true';
     const httpsKeyPath = process.env.HTTPS_KEY_PATH;
     const httpsCertPath = process.env.HTTPS_CERT_PATH;
+    const oauthStore = process.env.OAUTH_STORE || 'file';
+    const oauthStorePath = process.env.OAUTH_STORE_PATH || './data/oauth-store.json';
+    const redirectRules = process.env.OAUTH_REDIRECT_RULES || DEFAULT_REDIRECT_RULES;
+    const clientRedirectRules = process.env.OAUTH_CLIENT_REDIRECT_RULES;
+    const metricsToken = process.env.METRICS_TOKEN;
+    const hevyWebhookToken = process.env.HEVY_WEBHOOK_TOKEN;
+    // Hevy must reach the webhook receiver, so only a public URL will do
+    const publicBaseUrl = process.env.BASE_URL ||
+      (process.env.RAILWAY_PUBLIC_DOMAIN ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}` : undefined);
+    const auditLogEnabled = process.env.AUDIT_LOG !== 'false';
+    const auditLogPath = process.env.AUDIT_LOG_PATH || './data/audit.jsonl';
+    const auditLogMaxBytes = parseInt(process.env.AUDIT_LOG_MAX_BYTES || String(DEFAULT_AUDIT_LOG_OPTIONS.maxBytes), 10);
+    const oneRepMaxFormula = process.env.ONE_REP_MAX_FORMULA || DEFAULT_ONE_REP_MAX_FORMULA;
+    const workoutMirrorEnabled = process.env.WORKOUT_MIRROR !== 'false';
+    const workoutMirrorPath = process.env.WORKOUT_MIRROR_PATH || './data/workouts.json';
+    // Upstream retry policy, shared by the Hevy and Home Assistant clients
+    const retryPolicy: RetryPolicy = {
+      maxRetries: parseInt(process.env.UPSTREAM_MAX_RETRIES || String(DEFAULT_RETRY_POLICY.maxRetries), 10),
+      baseDelayMs: parseInt(process.env.UPSTREAM_RETRY_BASE_DELAY || String(DEFAULT_RETRY_POLICY.baseDelayMs), 10),
+      maxDelayMs: parseInt(process.env.UPSTREAM_RETRY_MAX_DELAY || String(DEFAULT_RETRY_POLICY.maxDelayMs), 10),
+      retryNonIdempotent: process.env.UPSTREAM_RETRY_NON_IDEMPOTENT === 'true',
+    };
+    // Hevy API budget, shared by every session
+    const hevyScheduler: SchedulerConfig = {
+      maxConcurrent: parseInt(process.env.HEVY_MAX_CONCURRENT_REQUESTS || String(DEFAULT_SCHEDULER_CONFIG.maxConcurrent), 10),
+      ratePerSecond: parseFloat(process.env.HEVY_RATE_LIMIT || String(DEFAULT_SCHEDULER_CONFIG.ratePerSecond)),
+      burst: parseInt(process.env.HEVY_RATE_BURST || String(DEFAULT_SCHEDULER_CONFIG.burst), 10),
+    };
+    const exerciseCache: ExerciseCacheConfig = {
+      ttlMs: parseInt(process.env.EXERCISE_CACHE_TTL || String(DEFAULT_EXERCISE_CACHE_CONFIG.ttlMs), 10),
+      staleWhileRevalidate: process.env.EXERCISE_CACHE_STALE_WHILE_REVALIDATE === 'true',
+      filePath: process.env.EXERCISE_CACHE_PERSIST !== 'false'
+        ? process.env.EXERCISE_CACHE_PATH || './data/exercise-templates.json'
+        : undefined,
+    };
 
     // Validate required configuration
     if (!apiKey) {
@@ -38,6 +106,82 @@ async function main() {
       );
     }
 
+    const invalidTransports = transports.filter((t) => !['stdio', 'sse', 'http'].includes(t));
+    if (transports.length === 0 || invalidTransports.length > 0) {
+      throw new ConfigurationError(
+        `Invalid TRANSPORT value: ${transport}. Must be 'stdio', 'sse', 'http', 'both', or a comma-separated list (e.g. 'sse,http').`
+      );
+    }
+
+    if (oauthStore !== 'file' && oauthStore !== 'memory') {
+      throw new ConfigurationError(
+        `Invalid OAUTH_STORE value: ${oauthStore}. Must be 'file' or 'memory'.`
+      );
+    }
+
+    const invalidRetrySettings = Object.entries(retryPolicy)
+      .filter(([, value]) => typeof value === 'number' && (Number.isNaN(value) || value < 0))
+      .map(([key]) => key);
+    if (invalidRetrySettings.length > 0) {
+      throw new ConfigurationError(
+        `Invalid upstream retry settings (${invalidRetrySettings.join(', ')}). UPSTREAM_MAX_RETRIES, UPSTREAM_RETRY_BASE_DELAY and UPSTREAM_RETRY_MAX_DELAY must be non-negative integers.`
+      );
+    }
+
+    const invalidSchedulerSettings = Object.entries(hevyScheduler)
+      .filter(([key, value]) => Number.isNaN(value) || (key === 'ratePerSecond' ? value <= 0 : value < 1))
+      .map(([key]) => key);
+    if (invalidSchedulerSettings.length > 0) {
+      throw new ConfigurationError(
+        `Invalid Hevy request limits (${invalidSchedulerSettings.join(', ')}). HEVY_MAX_CONCURRENT_REQUESTS and HEVY_RATE_BURST must be at least 1, HEVY_RATE_LIMIT greater than 0.`
+      );
+    }
+
+    if (Number.isNaN(exerciseCache.ttlMs) || exerciseCache.ttlMs < 0) {
+      throw new ConfigurationError(
+        `Invalid EXERCISE_CACHE_TTL value: ${process.env.EXERCISE_CACHE_TTL}. Must be a non-negative number of milliseconds.`
+      );
+    }
+
+    if (Number.isNaN(auditLogMaxBytes) || auditLogMaxBytes < 1) {
+      throw new ConfigurationError(
+        `Invalid AUDIT_LOG_MAX_BYTES value: ${process.env.AUDIT_LOG_MAX_BYTES}. Must be a positive number of bytes.`
+      );
+    }
+
+    const parsedFormula = OneRepMaxFormulaSchema.safeParse(oneRepMaxFormula);
+    if (!parsedFormula.success) {
+      throw new ConfigurationError(
+        `Invalid ONE_REP_MAX_FORMULA value: ${oneRepMaxFormula}. Must be one of: ${OneRepMaxFormulaSchema.options.join(', ')}.`
+      );
+    }
+
+    // Metrics scrapers get their own credential so it can't be used to authorize OAuth clients
+    if (metricsToken && metricsToken === authToken) {
+      throw new ConfigurationError('METRICS_TOKEN must differ from AUTH_TOKEN.');
+    }
+
+    const enableSSE = transports.includes('sse');
+    const enableStreamableHttp = transports.includes('http');
+
+    if (hevyWebhookToken) {
+      if (!enableSSE && !enableStreamableHttp) {
+        throw new ConfigurationError('HEVY_WEBHOOK_TOKEN requires an HTTP transport (TRANSPORT=sse or http).');
+      }
+      if (!publicBaseUrl) {
+        throw new ConfigurationError('HEVY_WEBHOOK_TOKEN requires BASE_URL so Hevy can reach the webhook receiver.');
+      }
+      if (hevyWebhookToken === authToken || hevyWebhookToken === metricsToken) {
+        throw new ConfigurationError('HEVY_WEBHOOK_TOKEN must differ from AUTH_TOKEN and METRICS_TOKEN.');
+      }
+    }
+
+    if (enableSSE && enableStreamableHttp && ssePath === streamableHttpPath) {
+      throw new ConfigurationError(
+        `SSE_PATH and STREAMABLE_HTTP_PATH must differ when running both transports (both are ${ssePath}).`
+      );
+    }
+
     console.error('Initializing Hevy + Home Assistant MCP Server...');
     console.error(`Transport mode: ${transport}`);
     if (haBaseUrl && haToken) {
@@ -46,41 +190,73 @@ async function main() {
       console.error('Home Assistant integration: disabled (set HA_BASE_URL and HA_TOKEN to enable)');
     }
 
-    // Create the MCP server
-    const server = createHevyMCPServer({
+    if (auditLogEnabled) {
+      auditLog = new AuditLog(auditLogPath, { maxBytes: auditLogMaxBytes });
+      console.error(`Audit log: ${auditLogPath}`);
+    }
+
+    if (workoutMirrorEnabled) {
+      console.error(`Workout mirror: ${workoutMirrorPath}`);
+    }
+
+    // Create the MCP server factory (one Server per session, shared API clients)
+    const createServer = createHevyMCPServerFactory({
       apiKey,
       apiBaseUrl,
       haBaseUrl,
       haToken,
+      auditLog,
+      retryPolicy,
+      hevyScheduler,
+      exerciseCache,
+      oneRepMaxFormula: parsedFormula.data,
+      workoutMirrorPath: workoutMirrorEnabled ? workoutMirrorPath : undefined,
+      webhook: hevyWebhookToken && publicBaseUrl
+        ? { url: `${publicBaseUrl}${HEVY_WEBHOOK_PATH}`, authToken: `Bearer ${hevyWebhookToken}` }
+        : undefined,
     });
+    serverFactory = createServer;
 
     // Initialize transport(s) based on configuration
-    if (transport === 'stdio' || transport === 'both') {
+    if (transports.includes('stdio')) {
       console.error('Starting stdio transport...');
-      await initializeStdioTransport(server);
+      await initializeStdioTransport(createServer);
     }
 
-    if (transport === 'sse' || transport === 'both') {
-      console.error('Starting SSE transport...');
-      await initializeSSETransport(server, {
+    if (enableSSE || enableStreamableHttp) {
+      // Persist OAuth codes and tokens so clients stay logged in across restarts
+      setTokenStore(
+        oauthStore === 'file' ? new FileTokenStore(oauthStorePath) : new MemoryTokenStore()
+      );
+      console.error(`OAuth token store: ${oauthStore === 'file' ? oauthStorePath : 'memory'}`);
+
+      // Redirect URIs that clients may register
+      setRedirectPolicy({
+        rules: parseRedirectRules(redirectRules),
+        clientOverrides: clientRedirectRules ? parseClientRedirectOverrides(clientRedirectRules) : {},
+      });
+
+      console.error(
+        `Starting HTTP transport (${[
+          enableSSE ? 'SSE' : null,
+          enableStreamableHttp ? 'Streamable HTTP' : null,
+        ].filter(Boolean).join(' + ')})...`
+      );
+      await initializeHTTPTransport(createServer, {
         port,
         host,
-        ssePath,
-        heartbeatInterval,
         authToken,
         sessionTimeout,
         enableHttps,
         httpsKeyPath,
         httpsCertPath,
+        sse: enableSSE ? { ssePath, heartbeatInterval } : undefined,
+        streamableHttp: enableStreamableHttp ? { path: streamableHttpPath } : undefined,
+        metricsToken,
+        hevyWebhookToken,
       });
     }
 
-    if (transport !== 'stdio' && transport !== 'sse' && transport !== 'both') {
-      throw new ConfigurationError(
-        `Invalid TRANSPORT value: ${transport}. Must be 'stdio', 'sse', or 'both'.`
-      );
-    }
-
     console.error('Hevy + Home Assistant MCP Server initialized successfully!');
   } catch (error) {
     console.error('Failed to start Hevy + Home Assistant MCP Server:');
@@ -96,15 +272,61 @@ async function main() {
   }
 }
 
+let shuttingDown = false;
+
+/**
+ * Coordinated shutdown: stop accepting work, let in-flight tool calls finish
+ * within SHUTDOWN_TIMEOUT, close the transports, then flush persistent stores
+ */
+async function shutdown(signal: string): Promise<void> {
+  // A second signal skips the drain
+  if (shuttingDown) {
+    console.error(`\nReceived ${signal} again, exiting immediately`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+
+  const shutdownTimeout = parseInt(process.env.SHUTDOWN_TIMEOUT || '10000', 10);
+  console.error(`\nReceived ${signal}, shutting down Hevy + Home Assistant MCP Server...`);
+
+  // Last resort in case a transport or store hangs while closing
+  setTimeout(() => {
+    console.error('Shutdown did not complete in time, exiting');
+    process.exit(1);
+  }, shutdownTimeout + 5000).unref();
+
+  try {
+    stopAcceptingConnections();
+
+    const inFlight = getActiveToolCallCount();
+    if (inFlight > 0) {
+      console.error(`Waiting up to ${shutdownTimeout}ms for ${inFlight} in-flight tool call(s)...`);
+    }
+    const drained = await waitForActiveToolCalls(shutdownTimeout);
+    if (!drained) {
+      console.error(`Abandoning ${getActiveToolCallCount()} tool call(s) still running after ${shutdownTimeout}ms`);
+    }
+
+    await closeHTTPTransport();
+    await auditLog?.flush();
+    await serverFactory?.flush();
+    await getTokenStore().close();
+
+    console.error('Shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during shutdown:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 // Handle graceful shutdown
 process.on('SIGINT', () => {
-  console.error('\nShutting down Hevy + Home Assistant MCP Server...');
-  process.exit(0);
+  void shutdown('SIGINT');
 });
 
 process.on('SIGTERM', () => {
-  console.error('\nShutting down Hevy + Home Assistant MCP Server...');
-  process.exit(0);
+  void shutdown('SIGTERM');
 });
 
 // Start the server
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { HevyClient } from '../hevy/client.js';
+import { WorkoutSummaryItem } from '../hevy/types.js';
+import { formatWorkoutSummary, formatLiftProgression } from '../utils/formatters.js';
+import { PromptDefinition, PromptTextMessage, definePrompt } from './registry.js';
+
+// Prompt arguments arrive as strings; parse whole days, capped at maxDays
+const daysArgument = (defaultDays: number, maxDays: number) =>
+  z
+    .string()
+    .regex(/^[1-9]\d*$/, 'Must be a whole number of days')
+    .optional()
+    .transform((value) => (value === undefined ? defaultDays : Math.min(Number(value), maxDays)));
+
+// Prompt arguments arrive as strings; parse a positive weight in kilograms
+const kgArgument = () =>
+  z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, 'Must be a weight in kg, e.g. "100" or "102.5"')
+    .refine((value) => Number(value) > 0, 'Must be greater than 0')
+    .transform(Number);
+
+/**
+ * Workout summaries from the last lookbackDays days
+ */
+function getRecentSummaries(
+  client: HevyClient,
+  lookbackDays: number,
+  exerciseFilter?: string
+): Promise<WorkoutSummaryItem[]> {
+  const cutoff = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+  return client.getWorkoutSummariesSince(cutoff, exerciseFilter);
+}
+
+// Single user message with the instructions followed by the pre-fetched context
+function userMessage(instructions: string, context: string[]): PromptTextMessage[] {
+  return [
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: [instructions, ...context].join('\n\n'),
+      },
+    },
+  ];
+}
+
+// Export coaching prompt definitions
+export function getCoachingPrompts(client: HevyClient): PromptDefinition[] {
+  return [
+    definePrompt({
+      name: 'review-training',
+      requiredScope: 'hevy:read',
+      description:
+        'Review recent training: consistency, volume, standout sets and what to adjust next. Includes the workouts from the lookback window.',
+      argsSchema: z.object({
+        lookbackDays: daysArgument(7, 90).describe('How many days back to review (default: 7, max: 90)'),
+      }),
+      build: async ({ lookbackDays }) => {
+        const summaries = await getRecentSummaries(client, lookbackDays);
+
+        return userMessage(
+          `Review my training over the last ${lookbackDays} days. Comment on consistency, how volume was spread across muscle groups, and any standout or weak sets, then suggest what I should adjust next. Base the review only on the workouts below.`,
+          [`## Workouts (last ${lookbackDays} days)`, formatWorkoutSummary(summaries)]
+        );
+      },
+    }),
+    definePrompt({
+      name: 'plan-next-session',
+      requiredScope: 'hevy:read',
+      description:
+        'Plan the next session for a given focus (e.g. push day) with exercises, sets, reps and target weights based on recent workouts.',
+      argsSchema: z.object({
+        focus: z
+          .string()
+          .trim()
+          .min(1)
+          .max(100)
+          .describe('What the session should train (e.g., "push", "legs", "upper body")'),
+        lookbackDays: daysArgument(14, 90).describe('How many days of history to base the plan on (default: 14, max: 90)'),
+      }),
+      build: async ({ focus, lookbackDays }) => {
+        const summaries = await getRecentSummaries(client, lookbackDays);
+
+        return userMessage(
+          `Plan my next ${focus} session. List the exercises in order with sets, reps and target weights. Progress from what I actually lifted recently (shown below), avoid repeating anything I trained hard in the last 48 hours, and briefly explain each choice. If it fits, offer to save the plan as a routine with create-routine.`,
+          [`## Recent workouts (last ${lookbackDays} days)`, formatWorkoutSummary(summaries)]
+        );
+      },
+    }),
+    definePrompt({
+      name: 'check-lift-goal',
+      requiredScope: 'hevy:read',
+      description:
+        'Check progress toward a strength goal on one lift (e.g. a 100kg bench press), with the estimated 1RM, trend and recent sessions.',
+      argsSchema: z.object({
+        lift: z
+          .string()
+          .trim()
+          .min(1)
+          .max(100)
+          .describe('Exercise name to search for (e.g., "Bench Press", "Squat")'),
+        goalKg: kgArgument().optional().describe('Optional target weight in kg'),
+        lookbackDays: daysArgument(90, 365).describe('How many days back to analyze for trends (default: 90, max: 365)'),
+      }),
+      build: async ({ lift, goalKg, lookbackDays }) => {
+        const [progression, summaries] = await Promise.all([
+          client.getLiftProgression([{ name: lift, goalKg }], lookbackDays),
+          client.getWorkoutSummaries(10, lift),
+        ]);
+
+        const goal = goalKg ? `my goal of ${goalKg} kg on ${lift}` : `getting stronger on ${lift}`;
+        return userMessage(
+          `Check my progress toward ${goal}. Using the progression report and recent sessions below, tell me where I stand, whether I'm on track, and the most useful change to my training to get there.`,
+          ['## Progression report', formatLiftProgression(progression), '## Recent sessions', formatWorkoutSummary(summaries)]
+        );
+      },
+    }),
+  ];
+}
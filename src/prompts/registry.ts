@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { ToolScope } from '../auth/scopes.js';
+import { formatValidationError } from '../tools/registry.js';
+
+// A type alias (not an interface) so messages stay assignable to the SDK's PromptMessage
+export type PromptTextMessage = {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+};
+
+/**
+ * A prompt defined once: the argument list advertised in prompts/list is derived
+ * from argsSchema (field names, descriptions, optionality)
+ * MCP prompt arguments are always strings, so schema fields must accept strings
+ */
+export interface PromptDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  requiredScope: ToolScope;
+  description: string;
+  argsSchema: z.ZodObject<Shape>;
+  // Receives arguments already parsed by argsSchema
+  build: (args: z.output<z.ZodObject<Shape>>) => Promise<PromptTextMessage[]>;
+}
+
+// Prompt listing as sent to MCP clients
+export interface ListedPrompt {
+  name: string;
+  description: string;
+  arguments: { name: string; description?: string; required: boolean }[];
+}
+
+// Outcome of resolving a prompt's arguments
+export type PromptArgumentsResult =
+  | { success: true; build: () => Promise<PromptTextMessage[]> }
+  | { success: false; error: string };
+
+/**
+ * Define a prompt with its build arguments typed from the schema
+ */
+export function definePrompt<Shape extends z.ZodRawShape>(prompt: PromptDefinition<Shape>): PromptDefinition {
+  return prompt as unknown as PromptDefinition;
+}
+
+/**
+ * Prompts by name, with their scopes and derived argument lists
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  register(prompts: PromptDefinition[]): void {
+    for (const prompt of prompts) {
+      if (this.prompts.has(prompt.name)) {
+        throw new Error(`Duplicate prompt name: ${prompt.name}`);
+      }
+      this.prompts.set(prompt.name, prompt);
+    }
+  }
+
+  getRequiredScope(name: string): ToolScope | undefined {
+    return this.prompts.get(name)?.requiredScope;
+  }
+
+  /**
+   * Prompt listing for prompts/list (requiredScope is internal and not sent to clients)
+   */
+  list(): ListedPrompt[] {
+    return Array.from(this.prompts.values()).map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: Object.entries(prompt.argsSchema.shape).map(([name, schema]) => ({
+        name,
+        description: schema.description,
+        required: !schema.isOptional(),
+      })),
+    }));
+  }
+
+  /**
+   * Validate a prompt's arguments
+   * Returns null for unknown prompts
+   */
+  prepare(name: string, args: Record<string, string> | undefined): PromptArgumentsResult | null {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      return null;
+    }
+
+    const validation = prompt.argsSchema.safeParse(args ?? {});
+    if (!validation.success) {
+      return { success: false, error: formatValidationError(validation.error) };
+    }
+
+    return { success: true, build: () => prompt.build(validation.data) };
+  }
+}
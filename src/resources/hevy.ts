@@ -0,0 +1,59 @@
+import { HevyClient } from '../hevy/client.js';
+import {
+  formatWorkout,
+  formatRoutine,
+  formatExerciseTemplate,
+  formatRoutineFolderList,
+} from '../utils/formatters.js';
+import { ResourceDefinition, ResourceTemplateDefinition } from './registry.js';
+
+// Export Hevy resource definitions
+export function getHevyResources(client: HevyClient): ResourceDefinition[] {
+  return [
+    {
+      uri: 'hevy://folders',
+      name: 'Routine folders',
+      description: 'All routine folders with their IDs.',
+      mimeType: 'text/markdown',
+      requiredScope: 'hevy:read',
+      read: async () => formatRoutineFolderList(await client.getRoutineFolders()),
+    },
+  ];
+}
+
+// Export Hevy resource template definitions
+export function getHevyResourceTemplates(client: HevyClient): ResourceTemplateDefinition[] {
+  return [
+    {
+      uriTemplate: 'hevy://workouts/{id}',
+      name: 'Workout',
+      description: 'A single workout with its exercises and sets, by workout ID.',
+      mimeType: 'text/markdown',
+      requiredScope: 'hevy:read',
+      read: async ({ id }) => {
+        // Name lookup needs the workout's template IDs (unknown ones trigger a template refetch)
+        const workout = await client.getWorkout(id);
+        const exerciseNameMap = await client.getExerciseNameMap(
+          workout.exercises.map((ex) => ex.exercise_template_id)
+        );
+        return formatWorkout(workout, exerciseNameMap);
+      },
+    },
+    {
+      uriTemplate: 'hevy://routines/{id}',
+      name: 'Routine',
+      description: 'A single routine with its exercises and planned sets, by routine ID.',
+      mimeType: 'text/markdown',
+      requiredScope: 'hevy:read',
+      read: async ({ id }) => formatRoutine(await client.getRoutine(id)),
+    },
+    {
+      uriTemplate: 'hevy://exercise-templates/{id}',
+      name: 'Exercise template',
+      description: 'An exercise template with its muscle groups and equipment, by template ID.',
+      mimeType: 'text/markdown',
+      requiredScope: 'hevy:read',
+      read: async ({ id }) => formatExerciseTemplate(await client.getExerciseTemplate(id)),
+    },
+  ];
+}
@@ -0,0 +1,142 @@
+import { ToolScope } from '../auth/scopes.js';
+
+/**
+ * A fixed resource listed in resources/list
+ */
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  requiredScope: ToolScope;
+  read: () => Promise<string>;
+}
+
+/**
+ * A family of resources addressed by an RFC 6570 level 1 template (e.g. hevy://workouts/{id})
+ */
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  requiredScope: ToolScope;
+  // Receives the decoded template variables
+  read: (params: Record<string, string>) => Promise<string>;
+}
+
+// A URI resolved to the resource (or template) that serves it
+export interface ResolvedResource {
+  mimeType: string;
+  requiredScope: ToolScope;
+  read: () => Promise<string>;
+}
+
+interface CompiledTemplate {
+  definition: ResourceTemplateDefinition;
+  pattern: RegExp;
+  variables: string[];
+}
+
+/**
+ * Compile a URI template into a regex; each variable matches one path segment
+ */
+function compileTemplate(definition: ResourceTemplateDefinition): CompiledTemplate {
+  const variables: string[] = [];
+  const source = definition.uriTemplate
+    .split(/(\{[a-zA-Z0-9_]+\})/)
+    .map((part) => {
+      const variable = part.match(/^\{([a-zA-Z0-9_]+)\}$/);
+      if (variable) {
+        variables.push(variable[1]);
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return { definition, pattern: new RegExp(`^${source}$`), variables };
+}
+
+/**
+ * Resources and resource templates, with their scopes
+ */
+export class ResourceRegistry {
+  private resources = new Map<string, ResourceDefinition>();
+  private templates: CompiledTemplate[] = [];
+
+  register(resources: ResourceDefinition[], templates: ResourceTemplateDefinition[] = []): void {
+    for (const resource of resources) {
+      if (this.resources.has(resource.uri)) {
+        throw new Error(`Duplicate resource URI: ${resource.uri}`);
+      }
+      this.resources.set(resource.uri, resource);
+    }
+    for (const template of templates) {
+      if (this.templates.some((t) => t.definition.uriTemplate === template.uriTemplate)) {
+        throw new Error(`Duplicate resource template: ${template.uriTemplate}`);
+      }
+      this.templates.push(compileTemplate(template));
+    }
+  }
+
+  /**
+   * Resource listing for resources/list (requiredScope is internal and not sent to clients)
+   */
+  listResources() {
+    return Array.from(this.resources.values()).map(({ uri, name, description, mimeType }) => ({
+      uri,
+      name,
+      description,
+      mimeType,
+    }));
+  }
+
+  /**
+   * Template listing for resources/templates/list
+   */
+  listTemplates() {
+    return this.templates.map(({ definition: { uriTemplate, name, description, mimeType } }) => ({
+      uriTemplate,
+      name,
+      description,
+      mimeType,
+    }));
+  }
+
+  /**
+   * Find what serves a URI: exact resources first, then templates in registration order
+   * Returns null if nothing matches
+   */
+  resolve(uri: string): ResolvedResource | null {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return resource;
+    }
+
+    for (const { definition, pattern, variables } of this.templates) {
+      const match = uri.match(pattern);
+      if (!match) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      try {
+        variables.forEach((variable, idx) => {
+          params[variable] = decodeURIComponent(match[idx + 1]);
+        });
+      } catch {
+        // Malformed percent-encoding
+        return null;
+      }
+
+      return {
+        mimeType: definition.mimeType,
+        requiredScope: definition.requiredScope,
+        read: () => definition.read(params),
+      };
+    }
+
+    return null;
+  }
+}
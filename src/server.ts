@@ -1,22 +1,145 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  CallToolRequest,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ServerRequest,
+  ServerNotification,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { HevyClient } from './hevy/client.js';
-import { handleWorkoutToolCall, getWorkoutTools } from './tools/workouts.js';
-import { handleRoutineToolCall, getRoutineTools } from './tools/routines.js';
-import { handleExerciseToolCall, getExerciseTools } from './tools/exercises.js';
-import { handleFolderToolCall, getFolderTools } from './tools/folders.js';
+import { WorkoutMirror } from './hevy/workout-mirror.js';
+import { getWorkoutTools } from './tools/workouts.js';
+import { getRoutineTools } from './tools/routines.js';
+import { getExerciseTools } from './tools/exercises.js';
+import { getFolderTools } from './tools/folders.js';
 import { HAClient } from './ha/client.js';
-import { handleHAToolCall, getHATools } from './tools/ha.js';
-import { ConfigurationError } from './utils/errors.js';
+import { getHATools } from './tools/ha.js';
+import { getAuditTools } from './tools/audit.js';
+import { getWebhookTools, WebhookTarget } from './tools/webhooks.js';
+import { getSyncTools } from './tools/sync.js';
+import { ToolRegistry } from './tools/registry.js';
+import { ResourceRegistry } from './resources/registry.js';
+import { getHevyResources, getHevyResourceTemplates } from './resources/hevy.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { getCoachingPrompts } from './prompts/coaching.js';
+import { onHevyChange, changedResourceUris, describeHevyChange } from './hevy/webhooks.js';
+import { AuditLog, AuditOutcome, redactArguments } from './audit/audit-log.js';
+import { ConfigurationError, handleToolError } from './utils/errors.js';
+import { hasScope } from './auth/scopes.js';
+import { metrics } from './utils/metrics.js';
+import { RetryPolicy } from './utils/retry.js';
+import { SchedulerConfig } from './utils/scheduler.js';
+import { ExerciseCacheConfig } from './hevy/exercise-cache.js';
+import { OneRepMaxFormula } from './hevy/types.js';
 
 export interface ServerConfig {
   apiKey: string;
   apiBaseUrl?: string;
   haBaseUrl?: string;
   haToken?: string;
+  auditLog?: AuditLog; // Records every tool call when set
+  webhook?: WebhookTarget; // Enables the webhook subscription tools when set
+  retryPolicy?: RetryPolicy; // Shared by the Hevy and Home Assistant clients
+  hevyScheduler?: SchedulerConfig; // Concurrency and rate limits for Hevy API requests
+  exerciseCache?: ExerciseCacheConfig; // Exercise template TTL, revalidation and persistence
+  oneRepMaxFormula?: OneRepMaxFormula; // Default formula for estimated 1RMs
+  workoutMirrorPath?: string; // Keeps a local copy of the workout history at this path when set
 }
 
-export function createHevyMCPServer(config: ServerConfig): Server {
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Creates a new, isolated MCP Server instance
+ * Each connected session gets its own Server so responses are routed back to the
+ * transport that issued the request
+ */
+export type ServerFactory = () => Server;
+
+/**
+ * ServerFactory that also flushes the shared clients' persistent stores (on shutdown)
+ */
+export type HevyMCPServerFactory = ServerFactory & { flush: () => Promise<void> };
+
+// Bounds the per-session subscription set, which lives as long as the session
+const MAX_SUBSCRIPTIONS_PER_SESSION = 1000;
+
+// Tool calls currently executing across every session (drained on shutdown)
+let activeToolCalls = 0;
+const idleWaiters = new Set<() => void>();
+
+/**
+ * Run a tool call while counting it as in flight and recording its outcome
+ */
+async function trackToolCall<T extends { isError?: boolean }>(
+  toolName: string,
+  call: () => Promise<T>
+): Promise<T> {
+  const startTime = Date.now();
+  let isError = true;
+
+  activeToolCalls++;
+  try {
+    const result = await call();
+    isError = Boolean(result.isError);
+    return result;
+  } finally {
+    metrics.toolCall(toolName, isError, Date.now() - startTime);
+    activeToolCalls--;
+    // Notify on the next turn so the SDK has written the result to the transport first
+    setImmediate(() => {
+      if (activeToolCalls === 0) {
+        idleWaiters.forEach((onIdle) => onIdle());
+        idleWaiters.clear();
+      }
+    });
+  }
+}
+
+/**
+ * Wait until no tool calls are executing, or the timeout elapses
+ * Resolves true if every call finished in time
+ */
+export function waitForActiveToolCalls(timeoutMs: number): Promise<boolean> {
+  if (activeToolCalls === 0) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const onIdle = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    const timer = setTimeout(() => {
+      idleWaiters.delete(onIdle);
+      resolve(false);
+    }, timeoutMs);
+
+    idleWaiters.add(onIdle);
+  });
+}
+
+/**
+ * Number of tool calls currently executing
+ */
+export function getActiveToolCallCount(): number {
+  return activeToolCalls;
+}
+
+/**
+ * Build a factory for per-session MCP servers
+ * API clients (and their caches) are created once and shared by every session
+ */
+export function createHevyMCPServerFactory(config: ServerConfig): HevyMCPServerFactory {
   // Validate configuration
   if (!config.apiKey) {
     throw new ConfigurationError('HEVY_API_KEY is required');
@@ -26,6 +149,10 @@ export function createHevyMCPServer(config: ServerConfig): Server {
   const hevyClient = new HevyClient({
     apiKey: config.apiKey,
     baseUrl: config.apiBaseUrl || 'https://api.hevyapp.com',
+    retryPolicy: config.retryPolicy,
+    scheduler: config.hevyScheduler,
+    exerciseCache: config.exerciseCache,
+    oneRepMaxFormula: config.oneRepMaxFormula,
   });
 
   // Initialize Home Assistant client (optional)
@@ -34,72 +161,267 @@ export function createHevyMCPServer(config: ServerConfig): Server {
     haClient = new HAClient({
       baseUrl: config.haBaseUrl,
       token: config.haToken,
+      retryPolicy: config.retryPolicy,
     });
   }
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'hevy-ha-mcp-server',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
+  // Serve workout history from a local copy (attached before tools read the client's limits)
+  let workoutMirror: WorkoutMirror | null = null;
+  if (config.workoutMirrorPath) {
+    workoutMirror = new WorkoutMirror(hevyClient, config.workoutMirrorPath);
+    hevyClient.useWorkoutMirror(workoutMirror);
+  }
+
+  // Register every tool once; schemas, scopes and handlers live with each definition
+  const registry = new ToolRegistry();
+  registry.register(getWorkoutTools(hevyClient));
+  registry.register(getRoutineTools(hevyClient));
+  registry.register(getExerciseTools(hevyClient));
+  registry.register(getFolderTools(hevyClient));
 
-  // Collect all tools from all modules
-  const allTools: any[] = [
-    ...getWorkoutTools(),
-    ...getRoutineTools(),
-    ...getExerciseTools(),
-    ...getFolderTools(),
-  ];
+  if (workoutMirror) {
+    registry.register(getSyncTools(workoutMirror));
+  }
 
   // Add Home Assistant tools if configured
   if (haClient) {
-    allTools.push(...getHATools());
+    registry.register(getHATools(haClient));
+  }
+
+  // Add webhook subscription tools if this server can receive webhooks
+  if (config.webhook) {
+    registry.register(getWebhookTools(hevyClient, config.webhook));
+  }
+
+  // Add audit log tools if the audit log is enabled
+  const auditLog = config.auditLog;
+  if (auditLog) {
+    registry.register(getAuditTools(auditLog));
   }
 
-  // Register single ListToolsRequestSchema handler with all tools
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: allTools,
-  }));
-
-  // Register single CallToolRequestSchema handler that routes to all modules
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    // Try each module's handler until one handles the tool
-    let result = await handleWorkoutToolCall(request, hevyClient);
-    if (result) return result;
-
-    result = await handleRoutineToolCall(request, hevyClient);
-    if (result) return result;
-
-    result = await handleExerciseToolCall(request, hevyClient);
-    if (result) return result;
-
-    result = await handleFolderToolCall(request, hevyClient);
-    if (result) return result;
-
-    // Try Home Assistant handler if configured
-    if (haClient) {
-      result = await handleHAToolCall(request, haClient);
-      if (result) return result;
-    }
-
-    // If no handler processed the tool, return an error
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Unknown tool: ${request.params.name}`,
+  // Hevy data clients can attach as context without a tool call
+  const resources = new ResourceRegistry();
+  resources.register(getHevyResources(hevyClient), getHevyResourceTemplates(hevyClient));
+
+  // Data changed in the Hevy app, so caches holding it may be stale
+  onHevyChange((change) => hevyClient.invalidateCaches(change.event));
+
+  // Coaching prompts pre-assembled from recent training data
+  const prompts = new PromptRegistry();
+  prompts.register(getCoachingPrompts(hevyClient));
+
+  // Unknown tool names are grouped so clients can't inflate metric cardinality
+  const metricLabel = (toolName: string) => (registry.has(toolName) ? toolName : 'unknown');
+
+  // Append a tool call to the audit log (no-op when disabled)
+  const recordAudit = (
+    request: CallToolRequest,
+    extra: ToolCallExtra,
+    outcome: AuditOutcome,
+    startTime: number,
+    error?: string
+  ) => {
+    auditLog?.record({
+      timestamp: new Date(startTime).toISOString(),
+      sessionId: extra.sessionId,
+      clientId: extra.authInfo?.clientId,
+      tool: request.params.name.substring(0, 100),
+      arguments: redactArguments(request.params.arguments || {}),
+      outcome,
+      error: error?.substring(0, 500),
+      durationMs: Date.now() - startTime,
+    });
+  };
+
+  const createServer = () => {
+    // Create MCP server
+    const server = new Server(
+      {
+        name: 'hevy-ha-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+          logging: {},
         },
-      ],
-      isError: true,
-    };
-  });
+      }
+    );
+
+    // Resource URIs this session subscribed to
+    const subscriptions = new Set<string>();
+
+    // Relay Hevy webhook deliveries: resources/updated for subscribed URIs, a log message for everything
+    // Send failures (e.g. no open notification stream) are ignored; the next read is fresh anyway
+    const stopListening = onHevyChange((change) => {
+      for (const uri of changedResourceUris(change)) {
+        if (subscriptions.has(uri)) {
+          server.sendResourceUpdated({ uri }).catch(() => {});
+        }
+      }
+      server
+        .sendLoggingMessage(
+          { level: 'info', logger: 'hevy-webhook', data: describeHevyChange(change) },
+          server.transport?.sessionId
+        )
+        .catch(() => {});
+    });
+    server.onclose = stopListening;
+
+    // Register single ListToolsRequestSchema handler with all tools
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: registry.list(),
+    }));
+
+    // Register single CallToolRequestSchema handler that dispatches through the registry
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => trackToolCall(metricLabel(request.params.name), async () => {
+      const startTime = Date.now();
+
+      // Enforce OAuth scopes (stdio and unauthenticated HTTP carry no auth info)
+      const requiredScope = registry.getRequiredScope(request.params.name);
+      if (requiredScope && extra.authInfo && !hasScope(extra.authInfo.scopes, requiredScope)) {
+        recordAudit(request, extra, 'denied', startTime, `Missing scope ${requiredScope}`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Insufficient scope: ${request.params.name} requires the "${requiredScope}" scope, but this token was granted "${extra.authInfo.scopes.join(' ') || '(none)'}". Reconnect and approve the "${requiredScope}" scope to use this tool.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        const result = (await registry.call(request.params.name, request.params.arguments)) ?? {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Unknown tool: ${request.params.name}`,
+            },
+          ],
+          isError: true,
+        };
+        recordAudit(
+          request,
+          extra,
+          result.isError ? 'error' : 'success',
+          startTime,
+          result.isError ? result.content?.[0]?.text : undefined
+        );
+        return result;
+      } catch (error) {
+        recordAudit(request, extra, 'error', startTime, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    }));
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: resources.listResources(),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: resources.listTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const resource = resources.resolve(uri);
+      if (!resource) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+      }
+
+      // Same scope rules as tools
+      if (extra.authInfo && !hasScope(extra.authInfo.scopes, resource.requiredScope)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Insufficient scope: ${uri} requires the "${resource.requiredScope}" scope`
+        );
+      }
+
+      let text: string;
+      try {
+        text = await resource.read();
+      } catch (error) {
+        throw new McpError(ErrorCode.InternalError, handleToolError(error));
+      }
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            text,
+          },
+        ],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const resource = resources.resolve(uri);
+      if (!resource) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+      }
+
+      if (extra.authInfo && !hasScope(extra.authInfo.scopes, resource.requiredScope)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Insufficient scope: ${uri} requires the "${resource.requiredScope}" scope`
+        );
+      }
+
+      if (subscriptions.size >= MAX_SUBSCRIPTIONS_PER_SESSION && !subscriptions.has(uri)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Too many resource subscriptions (max ${MAX_SUBSCRIPTIONS_PER_SESSION} per session)`
+        );
+      }
+
+      subscriptions.add(uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: prompts.list(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const requiredScope = prompts.getRequiredScope(name);
+      if (!requiredScope) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} not found`);
+      }
+
+      // Same scope rules as tools
+      if (extra.authInfo && !hasScope(extra.authInfo.scopes, requiredScope)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Insufficient scope: ${name} requires the "${requiredScope}" scope`
+        );
+      }
+
+      const prepared = prompts.prepare(name, args)!;
+      if (!prepared.success) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}:\n${prepared.error}`);
+      }
+
+      try {
+        return { messages: await prepared.build() };
+      } catch (error) {
+        throw new McpError(ErrorCode.InternalError, handleToolError(error));
+      }
+    });
+
+    return server;
+  };
 
-  return server;
+  return Object.assign(createServer, { flush: () => hevyClient.flush() });
 }
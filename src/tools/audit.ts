@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { AuditLog } from '../audit/audit-log.js';
+import { ToolDefinition, defineTool, textResult } from './registry.js';
+
+// Export audit log tool definitions
+export function getAuditTools(auditLog: AuditLog): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'get-audit-log',
+      requiredScope: 'audit:read',
+      description:
+        'Query recent tool calls recorded in the audit log, newest first. Each entry shows when the tool was called, by which OAuth client and session, the (redacted) arguments, the outcome and how long it took.',
+      inputSchema: z.object({
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .default(50)
+          .describe('Maximum number of entries to return (default: 50, max: 500)'),
+        tool: z
+          .string()
+          .optional()
+          .describe('Only show calls to this tool (e.g., "delete-routine", "ha_call_service")'),
+        clientId: z.string().optional().describe('Only show calls made by this OAuth client ID'),
+        outcome: z.enum(['success', 'error', 'denied']).optional().describe('Only show calls with this outcome'),
+        since: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe('ISO 8601 datetime; only show calls made at or after this time'),
+      }),
+      handler: async (query) => {
+        const entries = await auditLog.query(query);
+
+        if (entries.length === 0) {
+          return textResult('No matching audit log entries found.');
+        }
+
+        const lines: string[] = [`Found ${entries.length} audit log entr${entries.length === 1 ? 'y' : 'ies'} (newest first):\n`];
+        entries.forEach((entry, idx) => {
+          lines.push(`${idx + 1}. **${entry.tool}** - ${entry.outcome} (${entry.durationMs}ms)`);
+          lines.push(`   Time: ${entry.timestamp}`);
+          lines.push(`   Client: ${entry.clientId || '(none)'}  Session: ${entry.sessionId || '(none)'}`);
+          lines.push(`   Arguments: ${JSON.stringify(entry.arguments)}`);
+          if (entry.error) {
+            lines.push(`   Error: ${entry.error}`);
+          }
+          lines.push('');
+        });
+
+        return textResult(lines.join('\n'));
+      },
+    }),
+  ];
+}
@@ -1,287 +1,137 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { HevyClient } from '../hevy/client.js';
-import { handleToolError } from '../utils/errors.js';
 import { formatExerciseTemplate, formatExerciseTemplateList } from '../utils/formatters.js';
 import {
   PaginationParamsSchema,
   ExerciseProgressParamsSchema,
-  safeValidateInput,
 } from '../utils/validators.js';
+import { ToolDefinition, defineTool, textResult } from './registry.js';
 
 // Export exercise tool definitions
-export function getExerciseTools() {
+export function getExerciseTools(client: HevyClient): ToolDefinition[] {
   return [
-    {
+    defineTool({
       name: 'get-exercise-templates',
+      requiredScope: 'hevy:read',
       description:
         'Browse available exercise templates including both standard and custom exercises. Use this to find exercise IDs for creating workouts and routines.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          page: {
-            type: 'number',
-            description: 'Page number for pagination (default: 0)',
-            default: 0,
-          },
-          pageSize: {
-            type: 'number',
-            description: 'Number of exercises per page (default: 50, max: 100)',
-            default: 50,
-          },
-        },
+      inputSchema: PaginationParamsSchema.extend({
+        page: PaginationParamsSchema.shape.page.default(0),
+        pageSize: PaginationParamsSchema.shape.pageSize
+          .default(50)
+          .describe('Number of exercises per page (default: 50, max: 100)'),
+      }),
+      handler: async (args) => {
+        const exercises = await client.getExerciseTemplates(args);
+        return textResult(formatExerciseTemplateList(exercises));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-exercise-template',
+      requiredScope: 'hevy:read',
       description:
         'Get detailed information about a specific exercise template by ID. Returns exercise name, muscle groups, equipment, and movement pattern.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          id: {
-            type: 'string',
-            description: 'The unique exercise template ID',
-          },
-        },
-        required: ['id'],
+      inputSchema: z.object({
+        id: z.string().min(1).describe('The unique exercise template ID'),
+      }),
+      handler: async ({ id }) => {
+        const exercise = await client.getExerciseTemplate(id);
+        return textResult(formatExerciseTemplate(exercise));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-exercise-progress',
+      requiredScope: 'hevy:read',
       description:
         'Track progress for a specific exercise over time. Returns historical data showing sets, weights, and reps for each workout.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          exercise_template_id: {
-            type: 'string',
-            description: 'The exercise template ID to track',
-          },
-          start_date: {
-            type: 'string',
-            description: 'ISO 8601 date string (YYYY-MM-DD) for start of date range',
-          },
-          end_date: {
-            type: 'string',
-            description: 'ISO 8601 date string (YYYY-MM-DD) for end of date range',
-          },
-          limit: {
-            type: 'number',
-            description: 'Max number of progress entries to return (default: 50, max: 100)',
-            default: 50,
-          },
-        },
-        required: ['exercise_template_id'],
+      inputSchema: ExerciseProgressParamsSchema.extend({
+        limit: ExerciseProgressParamsSchema.shape.limit.default(50),
+      }),
+      handler: async (args) => {
+        const progress = await client.getExerciseProgress(args);
+
+        if (progress.length === 0) {
+          return textResult('No progress data found for this exercise in the specified date range.');
+        }
+
+        return textResult(`Progress data for exercise:\n\n${JSON.stringify(progress, null, 2)}`);
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-exercise-stats',
+      requiredScope: 'hevy:read',
       description:
         'Get personal records and statistics for a specific exercise. Returns PRs, estimated 1RM, total volume, and total reps.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          exercise_template_id: {
-            type: 'string',
-            description: 'The exercise template ID to get stats for',
-          },
-        },
-        required: ['exercise_template_id'],
-      },
-    },
-    {
-      name: 'search-exercises',
-      description:
-        'Search for exercises by name. Returns matching exercise templates with IDs and muscle groups. Use this to quickly find exercise IDs without pagination.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'Search term to find exercises (e.g., "bench", "squat", "deadlift")',
-          },
-        },
-        required: ['query'],
-      },
-    },
-  ];
-}
-
-// Handle exercise tool calls
-export async function handleExerciseToolCall(request: any, client: HevyClient) {
-  try {
-    switch (request.params.name) {
-        case 'get-exercise-templates': {
-          const validation = safeValidateInput(
-            PaginationParamsSchema,
-            request.params.arguments || {}
-          );
-
-          if (!validation.success) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Validation error: ${validation.error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          const exercises = await client.getExerciseTemplates(validation.data);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatExerciseTemplateList(exercises),
-              },
-            ],
-          };
+      inputSchema: z.object({
+        exercise_template_id: z.string().min(1).describe('The exercise template ID to get stats for'),
+      }),
+      handler: async ({ exercise_template_id }) => {
+        const stats = await client.getExerciseStats(exercise_template_id);
+
+        const lines: string[] = [];
+        lines.push(`# Exercise Statistics`);
+        lines.push(`Exercise ID: ${stats.exercise_template_id}`);
+        lines.push('');
+
+        if (stats.one_rep_max_kg) {
+          lines.push(`**Estimated 1RM:** ${stats.one_rep_max_kg} kg`);
         }
-
-        case 'get-exercise-template': {
-          const { id } = request.params.arguments as { id: string };
-          if (!id) {
-            return {
-              content: [{ type: 'text', text: 'Error: exercise template ID is required' }],
-              isError: true,
-            };
-          }
-
-          const exercise = await client.getExerciseTemplate(id);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatExerciseTemplate(exercise),
-              },
-            ],
-          };
+        if (stats.total_volume_kg) {
+          lines.push(`**Total Volume:** ${stats.total_volume_kg} kg`);
         }
-
-        case 'get-exercise-progress': {
-          const validation = safeValidateInput(
-            ExerciseProgressParamsSchema,
-            request.params.arguments || {}
-          );
-
-          if (!validation.success) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Validation error: ${validation.error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          const progress = await client.getExerciseProgress(validation.data);
-
-          if (progress.length === 0) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'No progress data found for this exercise in the specified date range.',
-                },
-              ],
-            };
-          }
-
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Progress data for exercise:\n\n${JSON.stringify(progress, null, 2)}`,
-              },
-            ],
-          };
+        if (stats.total_reps) {
+          lines.push(`**Total Reps:** ${stats.total_reps}`);
         }
 
-        case 'get-exercise-stats': {
-          const { exercise_template_id } = request.params.arguments as {
-            exercise_template_id: string;
-          };
-          if (!exercise_template_id) {
-            return {
-              content: [{ type: 'text', text: 'Error: exercise_template_id is required' }],
-              isError: true,
-            };
-          }
-
-          const stats = await client.getExerciseStats(exercise_template_id);
-
-          const lines: string[] = [];
-          lines.push(`# Exercise Statistics`);
-          lines.push(`Exercise ID: ${stats.exercise_template_id}`);
+        if (stats.personal_records && stats.personal_records.length > 0) {
           lines.push('');
-
-          if (stats.one_rep_max_kg) {
-            lines.push(`**Estimated 1RM:** ${stats.one_rep_max_kg} kg`);
-          }
-          if (stats.total_volume_kg) {
-            lines.push(`**Total Volume:** ${stats.total_volume_kg} kg`);
-          }
-          if (stats.total_reps) {
-            lines.push(`**Total Reps:** ${stats.total_reps}`);
-          }
-
-          if (stats.personal_records && stats.personal_records.length > 0) {
-            lines.push('');
-            lines.push('## Personal Records');
-            stats.personal_records.forEach((pr) => {
-              lines.push(
-                `- **${pr.type}**: ${pr.value} ${pr.unit} (${new Date(pr.date).toLocaleDateString()})`
-              );
-            });
-          }
-
-          return {
-            content: [
-              {
-                type: 'text',
-                text: lines.join('\n'),
-              },
-            ],
-          };
+          lines.push('## Personal Records');
+          stats.personal_records.forEach((pr) => {
+            lines.push(
+              `- **${pr.type}**: ${pr.value} ${pr.unit} (${new Date(pr.date).toLocaleDateString()})`
+            );
+          });
         }
 
-        case 'search-exercises': {
-          const { query } = request.params.arguments as { query: string };
-          if (!query) {
-            return {
-              content: [{ type: 'text', text: 'Error: query is required' }],
-              isError: true,
-            };
-          }
+        return textResult(lines.join('\n'));
+      },
+    }),
+    defineTool({
+      name: 'search-exercises',
+      requiredScope: 'hevy:read',
+      description:
+        'Search for exercises by name. Returns matching exercise templates with IDs and muscle groups. Use this to quickly find exercise IDs without pagination.',
+      inputSchema: z.object({
+        query: z.string().min(1).describe('Search term to find exercises (e.g., "bench", "squat", "deadlift")'),
+      }),
+      handler: async ({ query }) => {
+        const exercises = await client.searchExerciseTemplates(query);
+        return textResult(formatExerciseTemplateList(exercises));
+      },
+    }),
+    defineTool({
+      name: 'refresh-exercise-cache',
+      requiredScope: 'hevy:read',
+      description:
+        'Refetch all exercise templates from Hevy. Use this when a custom exercise created in the Hevy app is missing from search-exercises or workouts show an exercise ID instead of its name.',
+      inputSchema: z.object({}),
+      handler: async () => {
+        const { templates, added } = await client.refreshExerciseTemplates();
 
-          const exercises = await client.searchExerciseTemplates(query);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatExerciseTemplateList(exercises),
-              },
-            ],
-          };
+        const lines: string[] = [`✅ Exercise cache refreshed! ${templates.length} templates cached.`];
+        if (added.length > 0) {
+          lines.push('');
+          lines.push(`## New Exercises (${added.length})`);
+          added.slice(0, 20).forEach((t) => {
+            lines.push(`- ${t.title} (ID: ${t.id})`);
+          });
+          if (added.length > 20) {
+            lines.push(`- ...and ${added.length - 20} more`);
+          }
         }
 
-        default:
-          return null; // Tool not handled by this module
-      }
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: handleToolError(error),
-          },
-        ],
-        isError: true,
-      };
-    }
+        return textResult(lines.join('\n'));
+      },
+    }),
+  ];
 }
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ToolScope } from '../auth/scopes.js';
+import { handleToolError } from '../utils/errors.js';
+
+// A type alias (not an interface) so results stay assignable to the SDK's CallToolResult
+export type ToolResult = {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+};
+
+/**
+ * A tool defined once: its zod schema drives both the advertised JSON Schema
+ * and the validation of incoming arguments, so the two can't drift
+ */
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  requiredScope: ToolScope;
+  description: string;
+  inputSchema: Schema;
+  // Receives arguments already parsed (defaults applied, strings sanitized) by inputSchema
+  handler: (args: z.output<Schema>) => Promise<ToolResult>;
+}
+
+// Tool listing as sent to MCP clients
+export interface ListedTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Define a tool with its handler arguments typed from the schema
+ */
+export function defineTool<Schema extends z.ZodTypeAny>(tool: ToolDefinition<Schema>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+/**
+ * Plain-text result helper for handlers
+ */
+export function textResult(text: string): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Convert a tool's zod schema to the JSON Schema advertised in tools/list
+ */
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none', // Inline shared schemas; not every MCP client resolves $ref
+    removeAdditionalStrategy: 'strict', // Unknown keys are stripped, not rejected
+    allowedAdditionalProperties: undefined,
+  }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Format zod issues as one line per invalid field
+ */
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(arguments)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Tools by name, with their scopes and generated JSON Schemas
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private listed: ListedTool[] | null = null;
+
+  register(tools: ToolDefinition[]): void {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+    this.listed = null;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  getRequiredScope(name: string): ToolScope | undefined {
+    return this.tools.get(name)?.requiredScope;
+  }
+
+  /**
+   * Tool listing for tools/list (requiredScope is internal and not sent to clients)
+   */
+  list(): ListedTool[] {
+    if (!this.listed) {
+      this.listed = Array.from(this.tools.values()).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toJsonSchema(tool.inputSchema),
+      }));
+    }
+    return this.listed;
+  }
+
+  /**
+   * Validate arguments and run a tool
+   * Returns null for unknown tools; handler errors become error results
+   */
+  async call(name: string, args: unknown): Promise<ToolResult | null> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return null;
+    }
+
+    const validation = tool.inputSchema.safeParse(args ?? {});
+    if (!validation.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Validation error:\n${formatValidationError(validation.error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      return await tool.handler(validation.data);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: handleToolError(error),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
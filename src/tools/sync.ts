@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { WorkoutMirror, SyncedWorkout } from '../hevy/workout-mirror.js';
+import { ToolDefinition, defineTool, textResult } from './registry.js';
+
+// Changed workouts listed per category before summarizing the rest
+const MAX_LISTED = 20;
+
+function listChanges(heading: string, workouts: SyncedWorkout[]): string[] {
+  if (workouts.length === 0) {
+    return [];
+  }
+
+  const lines = [`## ${heading} (${workouts.length})`];
+  workouts.slice(0, MAX_LISTED).forEach((workout) => {
+    lines.push(`- ${workout.title || 'Untitled'} (ID: ${workout.id})`);
+  });
+  if (workouts.length > MAX_LISTED) {
+    lines.push(`- ...and ${workouts.length - MAX_LISTED} more`);
+  }
+  lines.push('');
+  return lines;
+}
+
+// Export workout mirror tool definitions
+export function getSyncTools(mirror: WorkoutMirror): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'sync-workouts',
+      requiredScope: 'hevy:read',
+      description:
+        'Bring the local copy of the workout history up to date with Hevy and report which workouts were added, changed or deleted since the last sync. Summary and analysis tools read from this copy and sync it automatically every few minutes.',
+      inputSchema: z.object({
+        full: z
+          .boolean()
+          .default(false)
+          .describe('Re-download the full history instead of applying changes since the last sync (slow; use if the copy looks wrong)'),
+      }),
+      handler: async ({ full }) => {
+        const previousSync = mirror.getSyncedAt();
+        const result = await mirror.sync(full);
+
+        const lines: string[] = ['# Workout Sync'];
+        lines.push(
+          result.seeded
+            ? `Downloaded the full history: ${result.total} workout(s).`
+            : `Applied changes since ${previousSync ? new Date(previousSync).toLocaleString() : 'the last sync'}: ${result.total} workout(s) stored.`
+        );
+        lines.push('');
+
+        if (result.created.length + result.updated.length + result.deleted.length === 0) {
+          lines.push(previousSync ? 'No changes.' : 'No workouts found.');
+        } else {
+          lines.push(...listChanges('Added', result.created));
+          lines.push(...listChanges('Changed', result.updated));
+          lines.push(...listChanges('Deleted', result.deleted));
+        }
+
+        return textResult(lines.join('\n'));
+      },
+    }),
+  ];
+}
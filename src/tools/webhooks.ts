@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { HevyClient } from '../hevy/client.js';
+import { WebhookSubscription } from '../hevy/types.js';
+import { WebhookEventSchema } from '../utils/validators.js';
+import { ToolDefinition, defineTool, textResult } from './registry.js';
+
+// Where Hevy should deliver webhooks: this server's receiver and the secret it checks
+export interface WebhookTarget {
+  url: string;
+  authToken: string;
+}
+
+// Format a webhook subscription, noting whether it points at this server
+function formatSubscription(subscription: WebhookSubscription, target: WebhookTarget): string {
+  const lines: string[] = [];
+  lines.push(`**URL:** ${subscription.url}${subscription.url === target.url ? ' (this server)' : ''}`);
+  lines.push(`**ID:** ${subscription.id}`);
+  lines.push(`**Active:** ${subscription.active ? 'yes' : 'no'}`);
+  if (subscription.events && subscription.events.length > 0) {
+    lines.push(`**Events:** ${subscription.events.join(', ')}`);
+  }
+  if (subscription.created_at) {
+    lines.push(`**Created:** ${new Date(subscription.created_at).toLocaleString()}`);
+  }
+  return lines.join('\n');
+}
+
+// Export webhook tool definitions
+export function getWebhookTools(client: HevyClient, target: WebhookTarget): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'get-webhook-subscription',
+      requiredScope: 'hevy:read',
+      description:
+        'Show the Hevy webhook subscription, if any, and whether it delivers to this server. While subscribed, workout and routine changes made in the Hevy app reach this server immediately.',
+      inputSchema: z.object({}),
+      handler: async () => {
+        const subscription = await client.getWebhookSubscription();
+
+        if (!subscription) {
+          return textResult('No webhook subscription. Use create-webhook-subscription to have Hevy notify this server of changes.');
+        }
+
+        return textResult(`# Webhook Subscription\n${formatSubscription(subscription, target)}`);
+      },
+    }),
+    defineTool({
+      name: 'create-webhook-subscription',
+      requiredScope: 'hevy:write',
+      description:
+        "Subscribe this server to Hevy webhooks so changes made in the Hevy app are picked up immediately. Replaces any existing subscription, since Hevy allows only one.",
+      inputSchema: z.object({
+        events: z
+          .array(WebhookEventSchema)
+          .min(1)
+          .default(WebhookEventSchema.options)
+          .describe('Events to subscribe to (default: all workout and routine events)'),
+      }),
+      handler: async ({ events }) => {
+        const existing = await client.getWebhookSubscription();
+        if (existing) {
+          await client.deleteWebhookSubscription();
+        }
+
+        const subscription = await client.createWebhookSubscription({
+          url: target.url,
+          events,
+          authToken: target.authToken,
+        });
+
+        const replaced = existing && existing.url !== target.url
+          ? `\n\nReplaced the previous subscription to ${existing.url}.`
+          : '';
+        return textResult(
+          `✅ Webhook subscription created!\n\n${formatSubscription(subscription, target)}${replaced}`
+        );
+      },
+    }),
+    defineTool({
+      name: 'delete-webhook-subscription',
+      requiredScope: 'hevy:write',
+      description: 'Delete the Hevy webhook subscription. Hevy will stop notifying this server of changes.',
+      inputSchema: z.object({}),
+      handler: async () => {
+        const existing = await client.getWebhookSubscription();
+        if (!existing) {
+          return textResult('No webhook subscription to delete.');
+        }
+
+        await client.deleteWebhookSubscription();
+        return textResult(`✅ Webhook subscription deleted! (URL: ${existing.url})`);
+      },
+    }),
+  ];
+}
@@ -1,467 +1,272 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { HevyClient } from '../hevy/client.js';
-import { handleToolError } from '../utils/errors.js';
-import { formatWorkout, formatWorkoutList, formatWorkoutSummary, formatLiftProgression } from '../utils/formatters.js';
+import {
+  formatWorkout,
+  formatWorkoutList,
+  formatWorkoutSummary,
+  formatLiftProgression,
+  formatTrainingVolume,
+  formatMuscleBalance,
+  formatPersonalRecordTimeline,
+} from '../utils/formatters.js';
 import {
   CreateWorkoutInputSchema,
   UpdateWorkoutInputSchema,
   WorkoutQueryParamsSchema,
-  safeValidateInput,
+  OneRepMaxFormulaSchema,
 } from '../utils/validators.js';
+import { DEFAULT_BALANCE_THRESHOLDS } from '../hevy/muscle-balance.js';
+import { RatioRange } from '../hevy/types.js';
+import { ToolDefinition, defineTool, textResult } from './registry.js';
+
+// Optional acceptable range for one balance ratio
+function ratioRangeSchema(defaults: RatioRange, ratio: string) {
+  return z
+    .object({
+      min: z.number().positive(),
+      max: z.number().positive(),
+    })
+    .refine((range) => range.min <= range.max, { message: 'min must not exceed max' })
+    .optional()
+    .describe(`Acceptable ${ratio} ratio range (default: ${defaults.min}–${defaults.max})`);
+}
 
 // Export workout tool definitions
-export function getWorkoutTools() {
+export function getWorkoutTools(client: HevyClient): ToolDefinition[] {
+  // Served locally by the workout mirror; otherwise every workout costs an API call
+  const maxSummaryCount = client.hasWorkoutMirror() ? 200 : 30;
+
   return [
-    {
+    defineTool({
       name: 'get-workouts',
+      requiredScope: 'hevy:read',
       description:
         'Get a list of workouts with optional date filtering and pagination. Returns workout summaries (title, ID, date, exercise count) but NOT full details. Use get-workout for full details of a specific workout, or get-workout-summary for recent workouts with all details in one call.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          startDate: {
-            type: 'string',
-            description: 'ISO 8601 date string (YYYY-MM-DD) for filtering workouts from this date',
-          },
-          endDate: {
-            type: 'string',
-            description: 'ISO 8601 date string (YYYY-MM-DD) for filtering workouts until this date',
-          },
-          page: {
-            type: 'number',
-            description: 'Page number for pagination (default: 0)',
-            default: 0,
-          },
-          pageSize: {
-            type: 'number',
-            description: 'Number of workouts per page (default: 10, max: 100)',
-            default: 10,
-          },
-        },
+      inputSchema: WorkoutQueryParamsSchema.extend({
+        page: WorkoutQueryParamsSchema.shape.page.default(0),
+        pageSize: WorkoutQueryParamsSchema.shape.pageSize
+          .default(10)
+          .describe('Number of workouts per page (default: 10, max: 100)'),
+      }),
+      handler: async (args) => {
+        const workouts = await client.getWorkouts(args);
+        return textResult(formatWorkoutList(workouts));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-workout',
+      requiredScope: 'hevy:read',
       description:
         'Get detailed information about a specific workout by ID. Returns full workout details including exercise names, sets, weights, reps, and notes. Exercise names are automatically resolved.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          id: {
-            type: 'string',
-            description: 'The unique workout ID',
-          },
-        },
-        required: ['id'],
+      inputSchema: z.object({
+        id: z.string().min(1).describe('The unique workout ID'),
+      }),
+      handler: async ({ id }) => {
+        // Resolve names after the fetch so exercises created since the last template fetch are found
+        const workout = await client.getWorkout(id);
+        const exerciseNameMap = await client.getExerciseNameMap(
+          workout.exercises.map((ex) => ex.exercise_template_id)
+        );
+        return textResult(formatWorkout(workout, exerciseNameMap));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'create-workout',
+      requiredScope: 'hevy:write',
       description:
         'Create a new workout with exercises and sets. Requires start time, end time, and at least one exercise with sets.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          title: {
-            type: 'string',
-            description: 'Workout title (e.g., "Push Day", "Leg Workout")',
-          },
-          description: {
-            type: 'string',
-            description: 'Optional workout description',
-          },
-          start_time: {
-            type: 'string',
-            description: 'ISO 8601 datetime string when workout started',
-          },
-          end_time: {
-            type: 'string',
-            description: 'ISO 8601 datetime string when workout ended',
-          },
-          exercises: {
-            type: 'array',
-            description: 'Array of exercises performed in this workout',
-            items: {
-              type: 'object',
-              properties: {
-                exercise_template_id: {
-                  type: 'string',
-                  description: 'ID of the exercise template',
-                },
-                superset_id: {
-                  type: 'string',
-                  description: 'Optional superset ID to group exercises',
-                },
-                notes: {
-                  type: 'string',
-                  description: 'Optional notes for this exercise',
-                },
-                sets: {
-                  type: 'array',
-                  description: 'Array of sets performed',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: {
-                        type: 'string',
-                        enum: ['normal', 'warmup', 'dropset', 'failure'],
-                        description: 'Type of set',
-                      },
-                      weight_kg: {
-                        type: 'number',
-                        description: 'Weight in kilograms',
-                      },
-                      reps: {
-                        type: 'number',
-                        description: 'Number of repetitions',
-                      },
-                      distance_meters: {
-                        type: 'number',
-                        description: 'Distance in meters (for cardio)',
-                      },
-                      duration_seconds: {
-                        type: 'number',
-                        description: 'Duration in seconds (for cardio/timed exercises)',
-                      },
-                      rpe: {
-                        type: 'number',
-                        description: 'Rate of Perceived Exertion (1-10)',
-                      },
-                    },
-                    required: ['type'],
-                  },
-                },
-              },
-              required: ['exercise_template_id', 'sets'],
-            },
-          },
-        },
-        required: ['title', 'start_time', 'end_time', 'exercises'],
+      inputSchema: CreateWorkoutInputSchema,
+      handler: async (args) => {
+        const workout = await client.createWorkout(args);
+        return textResult(`✅ Workout created successfully!\n\n${formatWorkout(workout)}`);
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'update-workout',
+      requiredScope: 'hevy:write',
       description:
         'Update an existing workout. You can update title, description, times, or exercises. Only provide fields you want to change.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          id: {
-            type: 'string',
-            description: 'The unique workout ID to update',
-          },
-          title: {
-            type: 'string',
-            description: 'New workout title',
-          },
-          description: {
-            type: 'string',
-            description: 'New workout description',
-          },
-          start_time: {
-            type: 'string',
-            description: 'New ISO 8601 datetime for start time',
-          },
-          end_time: {
-            type: 'string',
-            description: 'New ISO 8601 datetime for end time',
-          },
-          exercises: {
-            type: 'array',
-            description: 'New exercises array (replaces all existing exercises)',
-          },
-        },
-        required: ['id'],
+      inputSchema: UpdateWorkoutInputSchema.extend({
+        id: z.string().min(1).describe('The unique workout ID to update'),
+      }),
+      handler: async ({ id, ...updateData }) => {
+        const workout = await client.updateWorkout(id, updateData);
+        return textResult(`✅ Workout updated successfully!\n\n${formatWorkout(workout)}`);
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-workout-count',
+      requiredScope: 'hevy:read',
       description: 'Get the total count of all workouts in your account. Useful for stats and tracking progress.',
-      inputSchema: {
-        type: 'object',
-        properties: {},
+      inputSchema: z.object({}),
+      handler: async () => {
+        const result = await client.getWorkoutCount();
+        return textResult(`Total workouts: ${result.workout_count}`);
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-workout-events',
+      requiredScope: 'hevy:read',
       description:
         'Get workout update/delete events since a specific date. Useful for syncing or tracking changes.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          sinceDate: {
-            type: 'string',
-            description: 'ISO 8601 date string (YYYY-MM-DD) to get events from',
-          },
-        },
-        required: ['sinceDate'],
+      inputSchema: z.object({
+        sinceDate: z.string().min(1).describe('ISO 8601 date string (YYYY-MM-DD) to get events from'),
+      }),
+      handler: async ({ sinceDate }) => {
+        const events = await client.getWorkoutEvents(sinceDate);
+        return textResult(JSON.stringify(events, null, 2));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-workout-summary',
+      requiredScope: 'hevy:read',
       description:
         'RECOMMENDED for viewing recent training history. Returns multiple recent workouts with full details (exercise names, sets, weights, reps) in a single call. More efficient than get-workouts + get-workout when you need to see several recent workouts at once.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          count: {
-            type: 'number',
-            description: 'Number of recent workouts to fetch (default: 10, max: 30)',
-            default: 10,
-          },
-          exerciseFilter: {
-            type: 'string',
-            description: 'Optional filter to only show specific exercises (e.g., "bench", "squat")',
-          },
-        },
+      inputSchema: z.object({
+        // Values above the max are clamped rather than rejected
+        count: z
+          .number()
+          .int()
+          .min(1)
+          .default(10)
+          .transform((count) => Math.min(count, maxSummaryCount))
+          .describe(`Number of recent workouts to fetch (default: 10, max: ${maxSummaryCount})`),
+        exerciseFilter: z
+          .string()
+          .optional()
+          .describe('Optional filter to only show specific exercises (e.g., "bench", "squat")'),
+      }),
+      handler: async ({ count, exerciseFilter }) => {
+        const summaries = await client.getWorkoutSummaries(count, exerciseFilter);
+        return textResult(formatWorkoutSummary(summaries));
       },
-    },
-    {
+    }),
+    defineTool({
       name: 'get-lift-progression',
+      requiredScope: 'hevy:read',
       description:
         'Track progression on specific lifts with optional goal targets. Returns estimated 1RM, progress percentage toward goals, PRs, trends, and recent session history. Perfect for checking progress toward strength goals like "100kg bench".',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          exercises: {
-            type: 'array',
-            description: 'Array of exercises to track with optional goals',
-            items: {
-              type: 'object',
-              properties: {
-                name: {
-                  type: 'string',
-                  description: 'Exercise name to search for (e.g., "Bench Press (Barbell)", "Squat", "Deadlift")',
-                },
-                goalKg: {
-                  type: 'number',
-                  description: 'Optional target weight in kg to track progress toward',
-                },
-              },
-              required: ['name'],
-            },
-          },
-          lookbackDays: {
-            type: 'number',
-            description: 'How many days back to analyze for trends (default: 90)',
-            default: 90,
-          },
-        },
-        required: ['exercises'],
+      inputSchema: z.object({
+        exercises: z
+          .array(
+            z.object({
+              name: z
+                .string()
+                .min(1)
+                .describe('Exercise name to search for (e.g., "Bench Press (Barbell)", "Squat", "Deadlift")'),
+              goalKg: z.number().positive().optional().describe('Optional target weight in kg to track progress toward'),
+            })
+          )
+          .min(1)
+          .describe('Array of exercises to track with optional goals'),
+        lookbackDays: z
+          .number()
+          .int()
+          .min(1)
+          .default(90)
+          .describe('How many days back to analyze for trends (default: 90)'),
+        formula: OneRepMaxFormulaSchema.optional().describe(
+          'Formula for estimated 1RMs (default: the server setting). "rpe" adds reps in reserve (10 - RPE) before applying Epley'
+        ),
+      }),
+      handler: async ({ exercises, lookbackDays, formula }) => {
+        const results = await client.getLiftProgression(exercises, lookbackDays, formula);
+        return textResult(formatLiftProgression(results));
       },
-    },
-  ];
-}
-
-// Handle workout tool calls
-export async function handleWorkoutToolCall(request: any, client: HevyClient) {
-  try {
-    switch (request.params.name) {
-        case 'get-workouts': {
-          const validation = safeValidateInput(
-            WorkoutQueryParamsSchema,
-            request.params.arguments || {}
-          );
-
-          if (!validation.success) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Validation error: ${validation.error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          const workouts = await client.getWorkouts(validation.data);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatWorkoutList(workouts),
-              },
-            ],
-          };
-        }
-
-        case 'get-workout': {
-          const { id } = request.params.arguments as { id: string };
-          if (!id) {
-            return {
-              content: [{ type: 'text', text: 'Error: workout ID is required' }],
-              isError: true,
-            };
-          }
-
-          // Fetch workout and exercise name map in parallel
-          const [workout, exerciseNameMap] = await Promise.all([
-            client.getWorkout(id),
-            client.getExerciseNameMap(),
-          ]);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatWorkout(workout, exerciseNameMap),
-              },
-            ],
-          };
-        }
-
-        case 'create-workout': {
-          const validation = safeValidateInput(
-            CreateWorkoutInputSchema,
-            request.params.arguments || {}
-          );
-
-          if (!validation.success) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Validation error: ${validation.error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          const workout = await client.createWorkout(validation.data);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `✅ Workout created successfully!\n\n${formatWorkout(workout)}`,
-              },
-            ],
-          };
-        }
-
-        case 'update-workout': {
-          const { id, ...updateData } = request.params.arguments as any;
-          if (!id) {
-            return {
-              content: [{ type: 'text', text: 'Error: workout ID is required' }],
-              isError: true,
-            };
-          }
-
-          const validation = safeValidateInput(UpdateWorkoutInputSchema, updateData);
-
-          if (!validation.success) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Validation error: ${validation.error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          const workout = await client.updateWorkout(id, validation.data);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `✅ Workout updated successfully!\n\n${formatWorkout(workout)}`,
-              },
-            ],
-          };
-        }
-
-        case 'get-workout-count': {
-          const result = await client.getWorkoutCount();
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Total workouts: ${result.workout_count}`,
-              },
-            ],
-          };
-        }
-
-        case 'get-workout-events': {
-          const { sinceDate } = request.params.arguments as { sinceDate: string };
-          if (!sinceDate) {
-            return {
-              content: [{ type: 'text', text: 'Error: sinceDate is required' }],
-              isError: true,
-            };
-          }
-
-          const events = await client.getWorkoutEvents(sinceDate);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(events, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'get-workout-summary': {
-          const { count = 10, exerciseFilter } = request.params.arguments as {
-            count?: number;
-            exerciseFilter?: string;
-          };
-
-          // Limit count to 30 max
-          const limitedCount = Math.min(count, 30);
-
-          const summaries = await client.getWorkoutSummaries(limitedCount, exerciseFilter);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatWorkoutSummary(summaries),
-              },
-            ],
-          };
-        }
-
-        case 'get-lift-progression': {
-          const { exercises, lookbackDays = 90 } = request.params.arguments as {
-            exercises: { name: string; goalKg?: number }[];
-            lookbackDays?: number;
-          };
-
-          if (!exercises || exercises.length === 0) {
-            return {
-              content: [{ type: 'text', text: 'Error: exercises array is required' }],
-              isError: true,
-            };
-          }
-
-          const results = await client.getLiftProgression(exercises, lookbackDays);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatLiftProgression(results),
-              },
-            ],
-          };
+    }),
+    defineTool({
+      name: 'get-personal-records',
+      requiredScope: 'hevy:read',
+      description:
+        'Dated timeline of personal records for one exercise, computed from workout history: heaviest weight, best estimated 1RM, rep PRs at each weight, best set volume and best session volume, each linked to the workout that set it.',
+      inputSchema: z.object({
+        exercise: z
+          .string()
+          .min(1)
+          .describe('Exercise name to search for (e.g., "Bench Press (Barbell)", "Squat", "Deadlift")'),
+        lookbackDays: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Only consider workouts from the last N days (default: full history; slow for long histories without the workout mirror)'),
+        maxWorkouts: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(10)
+          .describe('Most recent record-setting workouts to list in the timeline (default: 10, max: 100)'),
+        formula: OneRepMaxFormulaSchema.optional().describe(
+          'Formula for estimated 1RMs (default: the server setting). "rpe" adds reps in reserve (10 - RPE) before applying Epley'
+        ),
+      }),
+      handler: async ({ exercise, lookbackDays, maxWorkouts, formula }) => {
+        const timeline = await client.getPersonalRecordTimeline(exercise, lookbackDays, formula);
+        if (!timeline) {
+          return textResult(`No exercise matching "${exercise}" found. Use search-exercises to find the exact name.`);
         }
-
-        default:
-          return null; // Tool not handled by this module
-      }
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: handleToolError(error),
-          },
-        ],
-        isError: true,
-      };
-    }
+        return textResult(formatPersonalRecordTimeline(timeline, maxWorkouts));
+      },
+    }),
+    defineTool({
+      name: 'get-training-volume',
+      requiredScope: 'hevy:read',
+      description:
+        'Training volume per muscle group, bucketed by week or month: hard sets, tonnage (kg) and reps, with the change from the previous period. Warmup sets are excluded; secondary muscles get partial credit. Use this to check weekly set targets or spot undertrained muscle groups.',
+      inputSchema: z.object({
+        period: z.enum(['week', 'month']).default('week').describe('Bucket size: "week" (Monday to Sunday) or "month" (default: week)'),
+        // Values above 26 are clamped rather than rejected
+        periods: z
+          .number()
+          .int()
+          .min(1)
+          .default(4)
+          .transform((periods) => Math.min(periods, 26))
+          .describe('Number of periods to report, including the current one (default: 4, max: 26)'),
+        secondaryWeight: z
+          .number()
+          .min(0)
+          .max(1)
+          .default(0.5)
+          .describe('Fraction of each set credited to secondary muscle groups (default: 0.5)'),
+      }),
+      handler: async ({ period, periods, secondaryWeight }) => {
+        const report = await client.getTrainingVolume(period, periods, secondaryWeight);
+        return textResult(formatTrainingVolume(report));
+      },
+    }),
+    defineTool({
+      name: 'get-muscle-balance',
+      requiredScope: 'hevy:read',
+      description:
+        'Check training balance over a recent window: push:pull, quad:hamstring and upper:lower ratios of hard sets, each flagged when outside its target range, plus hard sets per muscle group. Use this to spot imbalances before they become injuries.',
+      inputSchema: z.object({
+        lookbackDays: z
+          .number()
+          .int()
+          .min(1)
+          .max(365)
+          .default(28)
+          .describe('How many days back to analyze (default: 28, max: 365)'),
+        secondaryWeight: z
+          .number()
+          .min(0)
+          .max(1)
+          .default(0.5)
+          .describe('Fraction of each set credited to secondary muscle groups (default: 0.5)'),
+        pushPull: ratioRangeSchema(DEFAULT_BALANCE_THRESHOLDS.pushPull, 'push:pull'),
+        quadHamstring: ratioRangeSchema(DEFAULT_BALANCE_THRESHOLDS.quadHamstring, 'quad:hamstring'),
+        upperLower: ratioRangeSchema(DEFAULT_BALANCE_THRESHOLDS.upperLower, 'upper:lower'),
+      }),
+      handler: async ({ lookbackDays, secondaryWeight, pushPull, quadHamstring, upperLower }) => {
+        const report = await client.getMuscleBalance(lookbackDays, secondaryWeight, {
+          pushPull,
+          quadHamstring,
+          upperLower,
+        });
+        return textResult(formatMuscleBalance(report));
+      },
+    }),
+  ];
 }
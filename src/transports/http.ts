@@ -0,0 +1,616 @@
+import express, { Request, Response, NextFunction } from 'express';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+import { createServer as createHttpsServer } from 'https';
+import { createServer as createHttpServer, Server as NodeHttpServer } from 'http';
+import { readFileSync } from 'fs';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { sanitizeErrorMessage, secureCompare } from '../utils/security.js';
+import { logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
+import { ServerFactory } from '../server.js';
+import { parseHevyWebhook, publishHevyChange } from '../hevy/webhooks.js';
+import {
+  handleAuthorize,
+  handleAuthorizeDecision,
+  handleToken,
+  handleRegister,
+  handleRevoke,
+  handleIntrospect,
+  validateBearerToken,
+  handleProtectedResourceMetadata,
+  handleAuthorizationServerMetadata,
+  getTokenStore
+} from '../auth/oauth.js';
+import { registerSSERoutes, closeSSETransports, getSSESessionCount, SSERouteConfig } from './sse.js';
+import {
+  registerStreamableHTTPRoutes,
+  closeStreamableHTTPTransports,
+  closeStreamableHTTPSession,
+  getStreamableHTTPSessionCount,
+  StreamableHTTPRouteConfig,
+} from './streamable-http.js';
+
+export interface HTTPTransportConfig {
+  port: number;
+  host: string;
+  authToken?: string;
+  sessionTimeout?: number; // in milliseconds, default 30 days
+  enableHttps?: boolean;
+  httpsKeyPath?: string;
+  httpsCertPath?: string;
+  sse?: SSERouteConfig; // Legacy HTTP+SSE transport, omit to disable
+  streamableHttp?: StreamableHTTPRouteConfig; // Streamable HTTP transport, omit to disable
+  metricsToken?: string; // Bearer credential for /metrics, omit to disable the endpoint
+  hevyWebhookToken?: string; // Secret Hevy sends with webhook deliveries, omit to disable the receiver
+}
+
+// Where Hevy delivers webhooks (relative to BASE_URL)
+export const HEVY_WEBHOOK_PATH = '/webhooks/hevy';
+
+export interface Session {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  ip?: string;
+  clientId?: string; // OAuth client that created the session; only it may use the session
+}
+
+// Session storage (in-memory, could be Redis for production)
+// Shared by every HTTP-based transport so they go through the same session checks
+const sessions = new Map<string, Session>();
+
+// The listening server, and whether it has stopped accepting new work
+let httpServer: NodeHttpServer | undefined;
+let draining = false;
+
+// Periodic sweep of inactive sessions (started by createHTTPApp)
+let sessionSweep: NodeJS.Timeout | undefined;
+
+/**
+ * Register a session if it is not already known
+ */
+export function registerSession(sessionId: string, ip?: string, clientId?: string): void {
+  if (sessions.has(sessionId)) {
+    return;
+  }
+
+  sessions.set(sessionId, {
+    id: sessionId,
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+    ip,
+    clientId,
+  });
+  logger.sessionCreated(sessionId, ip);
+}
+
+/**
+ * Drop an inactive session, closing its Streamable HTTP transport (and per-session Server) if it has one
+ */
+function expireSession(sessionId: string, reason: string): void {
+  sessions.delete(sessionId);
+  logger.sessionExpired(sessionId, reason);
+  closeStreamableHTTPSession(sessionId);
+}
+
+/**
+ * Mark a session as active (used by heartbeats and long-lived streams)
+ */
+export function touchSession(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.lastActivity = Date.now();
+  }
+}
+
+/**
+ * Remove a session that the client explicitly terminated
+ */
+export function removeSession(sessionId: string): void {
+  sessions.delete(sessionId);
+}
+
+/**
+ * Generate a unique session ID
+ */
+export function generateSessionId(): string {
+  return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+}
+
+/**
+ * Build the Express app shared by the HTTP-based transports
+ * Security headers, rate limiting, OAuth and session handling are registered once
+ * and then each enabled transport mounts its routes behind them
+ */
+export function createHTTPApp(
+  createServer: ServerFactory,
+  config: HTTPTransportConfig
+): express.Application {
+  const app = express();
+  const isProduction = process.env.NODE_ENV === 'production';
+  const sessionTimeout = config.sessionTimeout || 30 * 24 * 60 * 60 * 1000; // 30 days default
+  const transportNames = [
+    ...(config.sse ? ['sse'] : []),
+    ...(config.streamableHttp ? ['streamable-http'] : []),
+  ];
+
+  // Clean up sessions idle for longer than sessionTimeout (clients that never send DELETE)
+  clearInterval(sessionSweep);
+  sessionSweep = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions.entries()) {
+      if (now - session.lastActivity > sessionTimeout) {
+        expireSession(sessionId, 'inactivity');
+      }
+    }
+  }, Math.min(sessionTimeout, 60 * 60 * 1000)); // Check every hour, or sooner for short timeouts
+  sessionSweep.unref();
+
+  // Refuse new requests once shutdown has begun (also fails health checks so proxies stop routing here)
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (draining) {
+      res.setHeader('Connection', 'close');
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Server is shutting down',
+      });
+      return;
+    }
+    next();
+  });
+
+  // Security headers with Helmet
+  app.use(
+    helmet({
+      contentSecurityPolicy: {
+        directives: {
+          defaultSrc: ["'self'"],
+          scriptSrc: ["'self'"],
+          styleSrc: ["'self'"],
+          imgSrc: ["'self'", 'data:'],
+        },
+      },
+      hsts: {
+        maxAge: 31536000, // 1 year
+        includeSubDomains: true,
+        preload: true,
+      },
+    })
+  );
+
+  // Enable JSON body parsing with size limits
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+
+  // Request timeout middleware
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    // Set timeout for all requests (5 minutes for long-running AI operations)
+    req.setTimeout(5 * 60 * 1000);
+    res.setTimeout(5 * 60 * 1000);
+    next();
+  });
+
+  // Request logging middleware
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const startTime = Date.now();
+
+    res.on('finish', () => {
+      const duration = Date.now() - startTime;
+      logger.apiRequest(req.method, req.path, res.statusCode, duration);
+      // Label by matched route rather than raw path to keep metric cardinality bounded
+      metrics.httpRequest(req.method, req.route ? req.baseUrl + req.route.path : 'unmatched', res.statusCode, duration);
+    });
+
+    next();
+  });
+
+  // CORS headers for remote access
+  app.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Authorization, mcp-session-id, mcp-protocol-version, last-event-id'
+    );
+    res.setHeader('Access-Control-Expose-Headers', 'mcp-session-id');
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(200);
+      return;
+    }
+    next();
+  });
+
+  // Rate limiting (skip health check for Railway and monitoring)
+  const limiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 1000, // Generous limit for AI agents (1000 requests per 15 min)
+    message: 'Too many requests from this IP, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip: (req) => req.path === '/health', // Exempt health check from rate limiting
+    handler: (req, res) => {
+      logger.rateLimitExceeded(req.ip, req.path);
+      res.status(429).json({
+        error: 'Too many requests',
+        message: 'Please try again later',
+      });
+    },
+  });
+
+  // Apply rate limiting to all routes (except health check)
+  app.use(limiter);
+
+  // Determine base URL for OAuth endpoints
+  const protocol = config.enableHttps ? 'https' : 'http';
+  const baseUrl = process.env.BASE_URL ||
+    (process.env.RAILWAY_PUBLIC_DOMAIN
+      ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
+      : `${protocol}://${config.host}:${config.port}`);
+
+  logger.info('OAuth base URL:', {
+    baseUrl,
+    RAILWAY_PUBLIC_DOMAIN: process.env.RAILWAY_PUBLIC_DOMAIN,
+    BASE_URL: process.env.BASE_URL
+  });
+
+  // OAuth 2.1 Authorization Server Metadata (RFC 8414)
+  // Must be accessible without authentication
+  app.get('/.well-known/oauth-authorization-server', handleAuthorizationServerMetadata(baseUrl));
+
+  // Protected Resource Metadata (RFC 9728)
+  // Must be accessible without authentication
+  app.get('/.well-known/oauth-protected-resource', handleProtectedResourceMetadata(baseUrl, baseUrl));
+
+  // OAuth authorization endpoint (public): GET shows the consent page, POST handles the decision
+  // Failed operator secret attempts are rate limited more strictly to slow down guessing
+  const authLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 50, // 50 auth attempts per 15 minutes
+    skipSuccessfulRequests: true,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res) => {
+      logger.rateLimitExceeded(req.ip, req.path);
+      res.status(429).json({
+        error: 'Too many requests',
+        message: 'Please try again later',
+      });
+    },
+  });
+  app.get('/authorize', handleAuthorize(baseUrl, config.authToken || ''));
+  app.post('/authorize', authLimiter, handleAuthorizeDecision(baseUrl, config.authToken || ''));
+
+  // OAuth token endpoint (public)
+  app.post('/token', handleToken(config.authToken || ''));
+
+  // Dynamic client registration endpoint (public, with a tighter rate limit)
+  const registrationLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 20, // 20 registrations per hour per IP
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res) => {
+      logger.rateLimitExceeded(req.ip, req.path);
+      res.status(429).json({
+        error: 'Too many requests',
+        message: 'Please try again later',
+      });
+    },
+  });
+  app.post('/register', registrationLimiter, handleRegister());
+
+  // Token revocation (RFC 7009) and introspection (RFC 7662) endpoints (public, authenticated in the handler)
+  app.post('/revoke', handleRevoke(config.authToken || ''));
+  app.post('/introspect', authLimiter, handleIntrospect(baseUrl, config.authToken || ''));
+
+  // Session validation middleware
+  const validateSession = (req: Request, res: Response, next: NextFunction) => {
+    const sessionId = req.headers['mcp-session-id'] as string;
+
+    if (!sessionId) {
+      return next();
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return next();
+    }
+
+    // Check if session expired
+    const now = Date.now();
+    if (now - session.lastActivity > sessionTimeout) {
+      expireSession(sessionId, 'timeout');
+      res.status(401).json({ error: 'Session expired' });
+      return;
+    }
+
+    // Only the OAuth client that created a session may use it
+    const clientId = (req as Request & { auth?: AuthInfo }).auth?.clientId;
+    if (session.clientId !== undefined && session.clientId !== clientId) {
+      logger.authFailure('session_client_mismatch', req.ip);
+      res.status(403).json({ error: 'Session belongs to another client' });
+      return;
+    }
+
+    // Update last activity
+    session.lastActivity = now;
+    sessions.set(sessionId, session);
+
+    next();
+  };
+
+  // Authentication middleware
+  // Can be disabled with DISABLE_AUTH=true for testing or if using external auth
+  const authDisabled = process.env.DISABLE_AUTH === 'true';
+
+  if (authDisabled) {
+    logger.warn('⚠️  Authentication is DISABLED - server is open to all connections!');
+    logger.warn('⚠️  Set DISABLE_AUTH=false or remove the variable to enable OAuth authentication');
+  }
+
+  app.use((req, res, next) => {
+    // Public endpoints that don't require authentication
+    const publicPaths = [
+      '/',
+      '/health',
+      '/authorize',
+      '/token',
+      '/register',
+      '/revoke',
+      '/introspect',
+      '/.well-known/oauth-authorization-server',
+      '/.well-known/oauth-protected-resource',
+      // Authenticated with their own credentials below
+      ...(config.metricsToken ? ['/metrics'] : []),
+      ...(config.hevyWebhookToken ? [HEVY_WEBHOOK_PATH] : [])
+    ];
+
+    if (publicPaths.includes(req.path)) {
+      return next();
+    }
+
+    // If auth is disabled, allow all requests through
+    if (authDisabled) {
+      logger.info('Auth disabled - allowing unauthenticated request:', {
+        path: req.path,
+        method: req.method
+      });
+      return next();
+    }
+
+    // For MCP endpoints, require OAuth bearer token
+    validateBearerToken(baseUrl)(req, res, next);
+  });
+
+  // Session management middleware
+  app.use(validateSession);
+
+  // Root endpoint - provides server info and MCP endpoint locations
+  app.get('/', (req: Request, res: Response) => {
+    res.json({
+      name: 'hevy-mcp-server',
+      version: '1.0.0',
+      description: 'MCP server for Hevy workout tracking',
+      transport: transportNames.join(', '),
+      endpoints: {
+        ...(config.sse ? { sse: config.sse.ssePath } : {}),
+        ...(config.streamableHttp ? { streamable_http: config.streamableHttp.path } : {}),
+        health: '/health',
+        oauth_authorization_server: '/.well-known/oauth-authorization-server',
+        oauth_protected_resource: '/.well-known/oauth-protected-resource'
+      },
+      capabilities: {
+        tools: true,
+        resources: true,
+        prompts: true
+      }
+    });
+  });
+
+  // Health check endpoint
+  app.get('/health', (req: Request, res: Response) => {
+    res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      transport: transportNames.join(', '),
+    });
+  });
+
+  // Hevy webhook receiver: invalidates caches and notifies connected sessions
+  if (config.hevyWebhookToken) {
+    const hevyWebhookToken = config.hevyWebhookToken;
+
+    app.post(HEVY_WEBHOOK_PATH, (req: Request, res: Response) => {
+      // Hevy echoes the subscription's authToken as the Authorization header, with or without "Bearer "
+      const authHeader = req.headers.authorization || '';
+      const presented = authHeader.startsWith('Bearer ') ? authHeader.substring(7) : authHeader;
+      if (!secureCompare(presented, hevyWebhookToken)) {
+        logger.authFailure('invalid_webhook_token', req.ip);
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const change = parseHevyWebhook(req.body);
+      logger.info('Hevy webhook received', {
+        event: change.event,
+        workoutId: change.workoutId,
+        routineId: change.routineId,
+      });
+      publishHevyChange(change);
+
+      res.status(200).json({ received: true });
+    });
+  }
+
+  // Prometheus metrics, protected by a credential separate from AUTH_TOKEN and OAuth tokens
+  if (config.metricsToken) {
+    const metricsToken = config.metricsToken;
+
+    metrics.registerGauge('mcp_active_sessions', 'Open MCP transport sessions', () => [
+      ...(config.sse ? [{ labels: { transport: 'sse' }, value: getSSESessionCount() }] : []),
+      ...(config.streamableHttp
+        ? [{ labels: { transport: 'streamable-http' }, value: getStreamableHTTPSessionCount() }]
+        : []),
+    ]);
+
+    metrics.registerGauge('mcp_oauth_tokens', 'Unexpired, unused OAuth tokens', async () => {
+      const tokens = (await getTokenStore().listTokens()).filter((token) => !token.usedAt);
+      return ['access_token', 'refresh_token'].map((type) => ({
+        labels: { type },
+        value: tokens.filter((token) => token.type === type).length,
+      }));
+    });
+
+    app.get('/metrics', async (req: Request, res: Response) => {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ') ||
+          !secureCompare(authHeader.substring(7), metricsToken)) {
+        logger.authFailure('invalid_metrics_token', req.ip);
+        res.setHeader('WWW-Authenticate', 'Bearer realm="metrics"');
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      try {
+        res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+        res.send(await metrics.render());
+      } catch (error) {
+        logger.error('Error rendering metrics', {}, error as Error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  // Transport-specific MCP endpoints
+  if (config.sse) {
+    registerSSERoutes(app, createServer, config.sse);
+  }
+
+  if (config.streamableHttp) {
+    registerStreamableHTTPRoutes(app, createServer, config.streamableHttp);
+  }
+
+  // Global error handler
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    logger.error('Unhandled error', { path: req.path, method: req.method }, err);
+
+    const sanitizedMessage = sanitizeErrorMessage(err, isProduction);
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: sanitizedMessage,
+    });
+  });
+
+  return app;
+}
+
+/**
+ * Start the HTTP server with optional HTTPS support
+ */
+export async function initializeHTTPTransport(
+  createServer: ServerFactory,
+  config: HTTPTransportConfig
+): Promise<void> {
+  const app = createHTTPApp(createServer, config);
+
+  return new Promise((resolve, reject) => {
+    try {
+      if (config.enableHttps && config.httpsKeyPath && config.httpsCertPath) {
+        // HTTPS server
+        const options = {
+          key: readFileSync(config.httpsKeyPath),
+          cert: readFileSync(config.httpsCertPath),
+        };
+
+        httpServer = createHttpsServer(options, app);
+        logger.info('Starting HTTPS server', {
+          host: config.host,
+          port: config.port
+        });
+      } else {
+        // HTTP server
+        httpServer = createHttpServer(app);
+        logger.info('Starting HTTP server', {
+          host: config.host,
+          port: config.port
+        });
+
+        if (process.env.NODE_ENV === 'production') {
+          logger.warn('Running without HTTPS in production - not recommended!');
+        }
+      }
+
+      httpServer.listen(config.port, config.host, () => {
+        const protocol = config.enableHttps ? 'https' : 'http';
+        const origin = `${protocol}://${config.host}:${config.port}`;
+        logger.info('Hevy MCP Server started', {
+          protocol,
+          host: config.host,
+          port: config.port,
+          ssePath: config.sse?.ssePath,
+          streamableHttpPath: config.streamableHttp?.path,
+        });
+
+        console.error(`Hevy MCP Server running on ${origin}`);
+        if (config.sse) {
+          console.error(`SSE endpoint: ${origin}${config.sse.ssePath}`);
+        }
+        if (config.streamableHttp) {
+          console.error(`Streamable HTTP endpoint: ${origin}${config.streamableHttp.path}`);
+        }
+        console.error(`Health check: ${origin}/health`);
+
+        resolve();
+      });
+
+      httpServer.on('error', (error) => {
+        logger.error('Server error', {}, error);
+        reject(error);
+      });
+
+    } catch (error) {
+      logger.error('Failed to start server', {}, error as Error);
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Stop accepting connections and refuse new requests on existing ones
+ * Open SSE streams stay up so in-flight tool calls can still deliver their results
+ */
+export function stopAcceptingConnections(): void {
+  if (!httpServer || draining) {
+    return;
+  }
+
+  draining = true;
+  httpServer.close();
+  httpServer.closeIdleConnections();
+  logger.info('HTTP server stopped accepting connections');
+}
+
+/**
+ * Close every transport and remaining connection, then wait for the server to shut down
+ */
+export async function closeHTTPTransport(): Promise<void> {
+  if (!httpServer) {
+    return;
+  }
+
+  const server = httpServer;
+  httpServer = undefined;
+  clearInterval(sessionSweep);
+
+  await closeSSETransports();
+  await closeStreamableHTTPTransports();
+
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+  logger.info('HTTP server closed');
+}
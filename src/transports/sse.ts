@@ -1,279 +1,56 @@
-import express, { Request, Response, NextFunction } from 'express';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import express, { Request, Response } from 'express';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
-import { createServer as createHttpsServer } from 'https';
-import { createServer as createHttpServer } from 'http';
-import { readFileSync } from 'fs';
-import { secureCompare, sanitizeErrorMessage } from '../utils/security.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { sanitizeErrorMessage } from '../utils/security.js';
 import { logger } from '../utils/logger.js';
-import {
-  handleAuthorize,
-  handleToken,
-  validateBearerToken,
-  handleProtectedResourceMetadata,
-  handleAuthorizationServerMetadata
-} from '../auth/oauth.js';
+import { ServerFactory } from '../server.js';
+import { generateSessionId, registerSession, touchSession } from './http.js';
 
-export interface SSETransportConfig {
-  port: number;
-  host: string;
+export interface SSERouteConfig {
   ssePath: string;
   heartbeatInterval: number;
-  authToken?: string;
-  sessionTimeout?: number; // in milliseconds, default 30 days
-  enableHttps?: boolean;
-  httpsKeyPath?: string;
-  httpsCertPath?: string;
 }
 
-interface Session {
-  id: string;
-  createdAt: number;
-  lastActivity: number;
-  ip?: string;
-}
-
-// Session storage (in-memory, could be Redis for production)
-const sessions = new Map<string, Session>();
-
 // Store transports by sessionId for message routing
 const transports = new Map<string, SSEServerTransport>();
 
-// Clean up expired sessions periodically
-setInterval(() => {
-  const now = Date.now();
-  const thirtyDays = 30 * 24 * 60 * 60 * 1000; // default timeout
-
-  for (const [sessionId, session] of sessions.entries()) {
-    if (now - session.lastActivity > thirtyDays) {
-      sessions.delete(sessionId);
-      logger.sessionExpired(sessionId, 'inactivity');
-    }
-  }
-}, 60 * 60 * 1000); // Check every hour
-
 /**
- * Initialize SSE transport for Poke.com
- * This transport uses Server-Sent Events for real-time communication
+ * Number of open SSE streams
  */
-export function createSSETransport(
-  server: Server,
-  config: SSETransportConfig
-): express.Application {
-  const app = express();
-  const isProduction = process.env.NODE_ENV === 'production';
-  const sessionTimeout = config.sessionTimeout || 30 * 24 * 60 * 60 * 1000; // 30 days default
-
-  // Security headers with Helmet
-  app.use(
-    helmet({
-      contentSecurityPolicy: {
-        directives: {
-          defaultSrc: ["'self'"],
-          scriptSrc: ["'self'"],
-          styleSrc: ["'self'"],
-          imgSrc: ["'self'", 'data:'],
-        },
-      },
-      hsts: {
-        maxAge: 31536000, // 1 year
-        includeSubDomains: true,
-        preload: true,
-      },
-    })
-  );
-
-  // Enable JSON body parsing with size limits
-  app.use(express.json({ limit: '1mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
-
-  // Request timeout middleware
-  app.use((req: Request, res: Response, next: NextFunction) => {
-    // Set timeout for all requests (5 minutes for long-running AI operations)
-    req.setTimeout(5 * 60 * 1000);
-    res.setTimeout(5 * 60 * 1000);
-    next();
-  });
-
-  // Request logging middleware
-  app.use((req: Request, res: Response, next: NextFunction) => {
-    const startTime = Date.now();
-
-    res.on('finish', () => {
-      const duration = Date.now() - startTime;
-      logger.apiRequest(req.method, req.path, res.statusCode, duration);
-    });
-
-    next();
-  });
-
-  // CORS headers for remote access
-  app.use((req, res, next) => {
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id');
-
-    if (req.method === 'OPTIONS') {
-      res.sendStatus(200);
-      return;
-    }
-    next();
-  });
-
-  // Rate limiting (skip health check for Railway and monitoring)
-  const limiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 1000, // Generous limit for AI agents (1000 requests per 15 min)
-    message: 'Too many requests from this IP, please try again later',
-    standardHeaders: true,
-    legacyHeaders: false,
-    skip: (req) => req.path === '/health', // Exempt health check from rate limiting
-    handler: (req, res) => {
-      logger.rateLimitExceeded(req.ip, req.path);
-      res.status(429).json({
-        error: 'Too many requests',
-        message: 'Please try again later',
-      });
-    },
-  });
-
-  // Apply rate limiting to all routes (except health check)
-  app.use(limiter);
-
-  // Stricter rate limiting for authentication
-  const authLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000,
-    max: 50, // 50 auth attempts per 15 minutes
-    skipSuccessfulRequests: true,
-  });
-
-  // Determine base URL for OAuth endpoints
-  const protocol = config.enableHttps ? 'https' : 'http';
-  const baseUrl = process.env.BASE_URL ||
-    (process.env.RAILWAY_PUBLIC_DOMAIN
-      ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
-      : `${protocol}://${config.host}:${config.port}`);
-
-  logger.info('OAuth base URL:', {
-    baseUrl,
-    RAILWAY_PUBLIC_DOMAIN: process.env.RAILWAY_PUBLIC_DOMAIN,
-    BASE_URL: process.env.BASE_URL
-  });
-
-  // OAuth 2.1 Authorization Server Metadata (RFC 8414)
-  // Must be accessible without authentication
-  app.get('/.well-known/oauth-authorization-server', handleAuthorizationServerMetadata(baseUrl));
-
-  // Protected Resource Metadata (RFC 9728)
-  // Must be accessible without authentication
-  app.get('/.well-known/oauth-protected-resource', handleProtectedResourceMetadata(baseUrl, baseUrl));
-
-  // OAuth authorization endpoint (public)
-  app.get('/authorize', handleAuthorize(baseUrl, config.authToken || ''));
-
-  // OAuth token endpoint (public)
-  app.post('/token', handleToken(config.authToken || ''));
-
-  // Session validation middleware
-  const validateSession = (req: Request, res: Response, next: NextFunction) => {
-    const sessionId = req.headers['mcp-session-id'] as string;
-
-    if (!sessionId) {
-      return next();
-    }
+export function getSSESessionCount(): number {
+  return transports.size;
+}
 
-    const session = sessions.get(sessionId);
-    if (!session) {
-      return next();
-    }
+/**
+ * Close every open SSE stream (used during shutdown, after in-flight calls have drained)
+ */
+export async function closeSSETransports(): Promise<void> {
+  const open = Array.from(transports.entries());
+  transports.clear();
 
-    // Check if session expired
-    const now = Date.now();
-    if (now - session.lastActivity > sessionTimeout) {
-      sessions.delete(sessionId);
-      logger.sessionExpired(sessionId, 'timeout');
-      res.status(401).json({ error: 'Session expired' });
-      return;
+  await Promise.all(open.map(async ([sessionId, transport]) => {
+    try {
+      await transport.close();
+    } catch (error) {
+      logger.error('Error closing SSE transport', { sessionId }, error as Error);
     }
+  }));
 
-    // Update last activity
-    session.lastActivity = now;
-    sessions.set(sessionId, session);
-
-    next();
-  };
-
-  // Authentication middleware
-  // Can be disabled with DISABLE_AUTH=true for testing or if using external auth
-  const authDisabled = process.env.DISABLE_AUTH === 'true';
-
-  if (authDisabled) {
-    logger.warn('⚠️  Authentication is DISABLED - server is open to all connections!');
-    logger.warn('⚠️  Set DISABLE_AUTH=false or remove the variable to enable OAuth authentication');
+  if (open.length > 0) {
+    logger.info('Closed SSE transports', { count: open.length });
   }
+}
 
-  app.use((req, res, next) => {
-    // Public endpoints that don't require authentication
-    const publicPaths = [
-      '/',
-      '/health',
-      '/authorize',
-      '/token',
-      '/.well-known/oauth-authorization-server',
-      '/.well-known/oauth-protected-resource'
-    ];
-
-    if (publicPaths.includes(req.path)) {
-      return next();
-    }
-
-    // If auth is disabled, allow all requests through
-    if (authDisabled) {
-      logger.info('Auth disabled - allowing unauthenticated request:', {
-        path: req.path,
-        method: req.method
-      });
-      return next();
-    }
-
-    // For MCP endpoints, require OAuth bearer token
-    validateBearerToken(baseUrl)(req, res, next);
-  });
-
-  // Session management middleware
-  app.use(validateSession);
-
-  // Root endpoint - provides server info and SSE endpoint location
-  app.get('/', (req: Request, res: Response) => {
-    res.json({
-      name: 'hevy-mcp-server',
-      version: '1.0.0',
-      description: 'MCP server for Hevy workout tracking',
-      transport: 'sse',
-      endpoints: {
-        sse: config.ssePath,
-        health: '/health',
-        oauth_authorization_server: '/.well-known/oauth-authorization-server',
-        oauth_protected_resource: '/.well-known/oauth-protected-resource'
-      },
-      capabilities: {
-        tools: true,
-        resources: false,
-        prompts: false
-      }
-    });
-  });
-
-  // Health check endpoint
-  app.get('/health', (req: Request, res: Response) => {
-    res.json({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      transport: 'sse',
-    });
-  });
+/**
+ * Register the legacy HTTP+SSE transport routes (used by Poke.com)
+ * This transport uses Server-Sent Events for real-time communication
+ */
+export function registerSSERoutes(
+  app: express.Application,
+  createServer: ServerFactory,
+  config: SSERouteConfig
+): void {
+  const isProduction = process.env.NODE_ENV === 'production';
 
   // SSE endpoint
   app.get(config.ssePath, async (req: Request, res: Response) => {
@@ -282,16 +59,7 @@ export function createSSETransport(
     logger.info('SSE connection established', { sessionId, ip: req.ip });
 
     // Create or update session
-    if (!sessions.has(sessionId)) {
-      const session: Session = {
-        id: sessionId,
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
-        ip: req.ip,
-      };
-      sessions.set(sessionId, session);
-      logger.sessionCreated(sessionId, req.ip);
-    }
+    registerSession(sessionId, req.ip, (req as Request & { auth?: AuthInfo }).auth?.clientId);
 
     const transport = new SSEServerTransport(config.ssePath, res);
 
@@ -305,6 +73,8 @@ export function createSSETransport(
       logger.info('Transport stored for session', { sessionId: transportSessionId });
     }
 
+    // Each SSE connection gets its own Server so responses reach the right client
+    const server = createServer();
     await server.connect(transport);
 
     // Keep the connection alive with heartbeats
@@ -313,11 +83,7 @@ export function createSSETransport(
         res.write(': heartbeat\n\n');
 
         // Update session activity
-        const session = sessions.get(sessionId);
-        if (session) {
-          session.lastActivity = Date.now();
-          sessions.set(sessionId, session);
-        }
+        touchSession(sessionId);
       } catch (error) {
         clearInterval(heartbeat);
       }
@@ -327,7 +93,10 @@ export function createSSETransport(
     req.on('close', () => {
       logger.info('SSE connection closed', { sessionId });
       clearInterval(heartbeat);
-      transport.close();
+      if (transportSessionId) {
+        transports.delete(transportSessionId);
+      }
+      server.close();
       // Don't delete session - allow reconnection within timeout period
     });
   });
@@ -370,91 +139,4 @@ export function createSSETransport(
       });
     }
   });
-
-  // Global error handler
-  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-    logger.error('Unhandled error', { path: req.path, method: req.method }, err);
-
-    const sanitizedMessage = sanitizeErrorMessage(err, isProduction);
-
-    res.status(500).json({
-      error: 'Internal server error',
-      message: sanitizedMessage,
-    });
-  });
-
-  return app;
-}
-
-/**
- * Generate a unique session ID
- */
-function generateSessionId(): string {
-  return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-}
-
-/**
- * Start the SSE server with optional HTTPS support
- */
-export async function initializeSSETransport(
-  server: Server,
-  config: SSETransportConfig
-): Promise<void> {
-  const app = createSSETransport(server, config);
-
-  return new Promise((resolve, reject) => {
-    try {
-      let httpServer;
-
-      if (config.enableHttps && config.httpsKeyPath && config.httpsCertPath) {
-        // HTTPS server
-        const options = {
-          key: readFileSync(config.httpsKeyPath),
-          cert: readFileSync(config.httpsCertPath),
-        };
-
-        httpServer = createHttpsServer(options, app);
-        logger.info('Starting HTTPS server', {
-          host: config.host,
-          port: config.port
-        });
-      } else {
-        // HTTP server
-        httpServer = createHttpServer(app);
-        logger.info('Starting HTTP server', {
-          host: config.host,
-          port: config.port
-        });
-
-        if (process.env.NODE_ENV === 'production') {
-          logger.warn('Running without HTTPS in production - not recommended!');
-        }
-      }
-
-      httpServer.listen(config.port, config.host, () => {
-        const protocol = config.enableHttps ? 'https' : 'http';
-        logger.info('Hevy MCP Server started', {
-          protocol,
-          host: config.host,
-          port: config.port,
-          ssePath: config.ssePath,
-        });
-
-        console.error(`Hevy MCP Server running on ${protocol}://${config.host}:${config.port}`);
-        console.error(`SSE endpoint: ${protocol}://${config.host}:${config.port}${config.ssePath}`);
-        console.error(`Health check: ${protocol}://${config.host}:${config.port}/health`);
-
-        resolve();
-      });
-
-      httpServer.on('error', (error) => {
-        logger.error('Server error', {}, error);
-        reject(error);
-      });
-
-    } catch (error) {
-      logger.error('Failed to start server', {}, error as Error);
-      reject(error);
-    }
-  });
 }
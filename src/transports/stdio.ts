@@ -1,11 +1,12 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ServerFactory } from '../server.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
 /**
  * Initialize stdio transport for Claude Desktop
  * This transport uses stdin/stdout for communication
  */
-export async function initializeStdioTransport(server: Server): Promise<void> {
+export async function initializeStdioTransport(createServer: ServerFactory): Promise<void> {
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -0,0 +1,167 @@
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { sanitizeErrorMessage } from '../utils/security.js';
+import { logger } from '../utils/logger.js';
+import { ServerFactory } from '../server.js';
+import { registerSession, removeSession } from './http.js';
+
+export interface StreamableHTTPRouteConfig {
+  path: string;
+}
+
+// Store transports by sessionId for request routing
+const transports = new Map<string, StreamableHTTPServerTransport>();
+
+/**
+ * Send a JSON-RPC error response (Streamable HTTP clients expect JSON-RPC framing)
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Number of open Streamable HTTP sessions
+ */
+export function getStreamableHTTPSessionCount(): number {
+  return transports.size;
+}
+
+/**
+ * Close one Streamable HTTP session (e.g. after it has been inactive for too long)
+ */
+export function closeStreamableHTTPSession(sessionId: string): void {
+  const transport = transports.get(sessionId);
+  if (!transport) {
+    return;
+  }
+
+  transports.delete(sessionId);
+  transport.close().catch((error) => {
+    logger.error('Error closing Streamable HTTP transport', { sessionId }, error as Error);
+  });
+}
+
+/**
+ * Close every open Streamable HTTP session (used during shutdown, after in-flight calls have drained)
+ */
+export async function closeStreamableHTTPTransports(): Promise<void> {
+  const open = Array.from(transports.entries());
+  transports.clear();
+
+  await Promise.all(open.map(async ([sessionId, transport]) => {
+    try {
+      await transport.close();
+    } catch (error) {
+      logger.error('Error closing Streamable HTTP transport', { sessionId }, error as Error);
+    }
+  }));
+
+  if (open.length > 0) {
+    logger.info('Closed Streamable HTTP transports', { count: open.length });
+  }
+}
+
+/**
+ * Register the Streamable HTTP transport routes
+ * A single endpoint handles POST (client messages), GET (server-initiated stream)
+ * and DELETE (session termination), as required by newer MCP clients
+ */
+export function registerStreamableHTTPRoutes(
+  app: express.Application,
+  createServer: ServerFactory,
+  config: StreamableHTTPRouteConfig
+): void {
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  // POST endpoint for client messages (also creates sessions on initialize)
+  app.post(config.path, async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport = sessionId ? transports.get(sessionId) : undefined;
+
+      if (!transport) {
+        if (sessionId) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+
+        if (!isInitializeRequest(req.body)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+          return;
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            transports.set(newSessionId, newTransport);
+            // Bind the session to the OAuth client that initialized it (none when auth is disabled)
+            registerSession(newSessionId, req.ip, (req as Request & { auth?: AuthInfo }).auth?.clientId);
+            logger.info('Streamable HTTP session initialized', { sessionId: newSessionId, ip: req.ip });
+          },
+        });
+
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            transports.delete(newTransport.sessionId);
+            removeSession(newTransport.sessionId);
+            logger.info('Streamable HTTP session closed', { sessionId: newTransport.sessionId });
+          }
+        };
+
+        // Each session gets its own Server so responses reach the right client
+        const server = createServer();
+        await server.connect(newTransport);
+        transport = newTransport;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling Streamable HTTP POST request', { path: req.path }, error as Error);
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, sanitizeErrorMessage(error, isProduction));
+      }
+    }
+  });
+
+  // GET (server-to-client stream) and DELETE (session termination) share session lookup
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      if (!sessionId) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: Missing Mcp-Session-Id header');
+        return;
+      }
+
+      const transport = transports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        removeSession(sessionId);
+        logger.info('Streamable HTTP session terminated by client', { sessionId });
+      }
+
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error('Error handling Streamable HTTP request', { path: req.path, method: req.method }, error as Error);
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, sanitizeErrorMessage(error, isProduction));
+      }
+    }
+  };
+
+  app.get(config.path, handleSessionRequest);
+  app.delete(config.path, handleSessionRequest);
+}
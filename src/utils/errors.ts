@@ -1,16 +1,52 @@
 // Error handling utilities for MCP server
 
-export class HevyAPIError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public cause?: unknown
-  ) {
+// Details common to every failed upstream (Hevy or Home Assistant) request
+export interface UpstreamErrorDetails {
+  method: string;
+  endpoint: string;
+  statusCode?: number; // Unset for timeouts and network errors
+  body?: string; // Upstream response body, truncated
+  detail: string; // Error message from the body, or why no response arrived
+  retryable: boolean; // Whether the same request could succeed later
+  cause?: unknown;
+}
+
+export class UpstreamAPIError extends Error {
+  readonly method: string;
+  readonly endpoint: string;
+  readonly statusCode?: number;
+  readonly body?: string;
+  readonly detail: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: UpstreamErrorDetails) {
     super(message);
+    this.name = 'UpstreamAPIError';
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.statusCode = details.statusCode;
+    this.body = details.body;
+    this.detail = details.detail;
+    this.retryable = details.retryable;
+    this.cause = details.cause;
+  }
+}
+
+export class HevyAPIError extends UpstreamAPIError {
+  constructor(message: string, details: UpstreamErrorDetails) {
+    super(message, details);
     this.name = 'HevyAPIError';
   }
 }
 
+export class HAAPIError extends UpstreamAPIError {
+  constructor(message: string, details: UpstreamErrorDetails) {
+    super(message, details);
+    this.name = 'HAAPIError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(message: string, public details?: unknown) {
     super(message);
@@ -25,11 +61,90 @@ export class ConfigurationError extends Error {
   }
 }
 
+// Singular names for Hevy API collections, used in "not found" messages
+const HEVY_RESOURCE_NAMES: Record<string, string> = {
+  workouts: 'Workout',
+  routines: 'Routine',
+  routine_folders: 'Routine folder',
+  exercise_templates: 'Exercise template',
+  exercises: 'Exercise',
+};
+
+/**
+ * Describe the record a Hevy endpoint refers to, e.g. "Workout abc123"
+ */
+function describeHevyResource(endpoint: string): string | undefined {
+  const match = endpoint.split('?')[0].match(/^\/v1\/([a-z_]+)\/([^/]+)/);
+  if (!match || !HEVY_RESOURCE_NAMES[match[1]]) {
+    return undefined;
+  }
+  return `${HEVY_RESOURCE_NAMES[match[1]]} ${decodeURIComponent(match[2])}`;
+}
+
+/**
+ * Describe the record a Home Assistant endpoint refers to, e.g. "Entity light.kitchen"
+ */
+function describeHAResource(endpoint: string): string | undefined {
+  const path = endpoint.split('?')[0];
+  const state = path.match(/^\/api\/states\/([^/]+)$/);
+  if (state) {
+    return `Entity ${decodeURIComponent(state[1])}`;
+  }
+  const service = path.match(/^\/api\/services\/([^/]+)\/([^/]+)$/);
+  if (service) {
+    return `Service ${decodeURIComponent(service[1])}.${decodeURIComponent(service[2])}`;
+  }
+  return undefined;
+}
+
+/**
+ * Turn a failed upstream request into a message that says what to do about it
+ */
+function describeUpstreamError(
+  error: UpstreamAPIError,
+  upstream: string,
+  credentialHint: string,
+  resource: string | undefined
+): string {
+  const status = error.statusCode;
+
+  if (status === undefined) {
+    return `Could not reach the ${upstream}: ${error.detail}. Try again shortly.`;
+  }
+  if (status === 401 || status === 403) {
+    return `${upstream} rejected the credentials (Status: ${status}) — ${credentialHint}`;
+  }
+  if (status === 404) {
+    return resource
+      ? `${resource} not found. Check the ID, or list the available ones first.`
+      : `${upstream} endpoint not found (Status: 404): ${error.detail}`;
+  }
+  if (status === 429) {
+    return `${upstream} rate limit reached (Status: 429). Wait a minute before trying again.`;
+  }
+  if (status >= 500) {
+    return `${upstream} is having problems (Status: ${status}). Try again later.`;
+  }
+  return `${upstream} rejected the request (Status: ${status}): ${error.detail}`;
+}
+
 export function handleToolError(error: unknown): string {
   if (error instanceof HevyAPIError) {
-    return `Hevy API Error: ${error.message}${
-      error.statusCode ? ` (Status: ${error.statusCode})` : ''
-    }`;
+    return describeUpstreamError(
+      error,
+      'Hevy API',
+      'check HEVY_API_KEY (API access requires Hevy PRO).',
+      describeHevyResource(error.endpoint)
+    );
+  }
+
+  if (error instanceof HAAPIError) {
+    return describeUpstreamError(
+      error,
+      'Home Assistant API',
+      'check HA_TOKEN is a valid long-lived access token.',
+      describeHAResource(error.endpoint)
+    );
   }
 
   if (error instanceof ValidationError) {
@@ -50,6 +165,10 @@ export function handleToolError(error: unknown): string {
 }
 
 export function isNetworkError(error: unknown): boolean {
+  // Upstream requests that got no response at all
+  if (error instanceof UpstreamAPIError) {
+    return error.statusCode === undefined;
+  }
   if (error instanceof Error) {
     return (
       error.message.includes('fetch') ||
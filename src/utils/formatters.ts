@@ -1,4 +1,18 @@
-import { Workout, ExerciseTemplate, Routine, ExerciseSet, LiftProgressionResult, WorkoutSummaryItem } from '../hevy/types.js';
+import {
+  Workout,
+  ExerciseTemplate,
+  Routine,
+  RoutineFolder,
+  ExerciseSet,
+  LiftProgressionResult,
+  WorkoutSummaryItem,
+  TrainingVolumeReport,
+  VolumeTotals,
+  MuscleBalanceReport,
+  PersonalRecordTimeline,
+  PersonalRecordEvent,
+} from '../hevy/types.js';
+import { ONE_REP_MAX_FORMULA_LABELS } from '../hevy/one-rep-max.js';
 
 // Capitalize first letter of each word in a title
 function capitalizeTitle(title: string | undefined | null): string {
@@ -209,6 +223,26 @@ export function formatRoutineList(routines: Routine[]): string {
   return lines.join('\n');
 }
 
+// Format routine folder list
+export function formatRoutineFolderList(folders: RoutineFolder[]): string {
+  if (folders.length === 0) {
+    return 'No routine folders found.';
+  }
+
+  const lines: string[] = [`Found ${folders.length} folder(s):\n`];
+
+  folders.forEach((folder, idx) => {
+    lines.push(`${idx + 1}. **${folder.title}**`);
+    lines.push(`   ID: ${folder.id}`);
+    if (folder.created_at) {
+      lines.push(`   Created: ${new Date(folder.created_at).toLocaleDateString()}`);
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
 // Format exercise template list
 export function formatExerciseTemplateList(exercises: ExerciseTemplate[]): string {
   if (exercises.length === 0) {
@@ -288,10 +322,14 @@ export function formatLiftProgression(results: LiftProgressionResult[]): string
       return;
     }
 
+    // Name the source of every 1RM figure: the chosen formula, or Hevy's own stats
+    const formulaLabel = ONE_REP_MAX_FORMULA_LABELS[result.formula];
+    const currentSource = result.currentEstimated1RMSource === 'hevy' ? 'Hevy stats' : formulaLabel;
+
     // Goal and progress line
     if (result.goalKg) {
       const current = result.currentEstimated1RM
-        ? `${Math.round(result.currentEstimated1RM * 10) / 10} kg`
+        ? `${Math.round(result.currentEstimated1RM * 10) / 10} kg (${currentSource})`
         : 'N/A';
       const progress = result.progressPercent ? `${result.progressPercent}%` : 'N/A';
       lines.push(`- **Goal:** ${result.goalKg} kg | **Current 1RM:** ${current} | **Progress:** ${progress}`);
@@ -302,7 +340,7 @@ export function formatLiftProgression(results: LiftProgressionResult[]): string
         lines.push(`- **Goal reached!**`);
       }
     } else if (result.currentEstimated1RM) {
-      lines.push(`- **Current Estimated 1RM:** ${Math.round(result.currentEstimated1RM * 10) / 10} kg`);
+      lines.push(`- **Current Estimated 1RM:** ${Math.round(result.currentEstimated1RM * 10) / 10} kg (${currentSource})`);
     }
 
     // PRs
@@ -334,7 +372,7 @@ export function formatLiftProgression(results: LiftProgressionResult[]): string
     }[result.trend];
 
     const deltaStr = result.trendDeltaKg
-      ? ` (${result.trendDeltaKg > 0 ? '+' : ''}${result.trendDeltaKg} kg)`
+      ? ` (${result.trendDeltaKg > 0 ? '+' : ''}${result.trendDeltaKg} kg estimated 1RM, ${formulaLabel})`
       : '';
 
     lines.push(`- **Trend:** ${trendEmoji} ${trendText}${deltaStr}`);
@@ -358,3 +396,184 @@ export function formatLiftProgression(results: LiftProgressionResult[]): string
 
   return lines.join('\n');
 }
+
+// Format a volume figure with an optional signed change (e.g. "12 sets (+2)")
+function formatVolumeFigure(value: number, change: number | undefined, unit: string, decimals: number): string {
+  const factor = 10 ** decimals;
+  const round = (n: number) => (Math.round(n * factor) / factor).toLocaleString('en-US');
+  const rounded = Math.round((change ?? 0) * factor) / factor;
+  const changeStr = rounded !== 0 ? ` (${rounded > 0 ? '+' : ''}${round(rounded)})` : '';
+  return `${round(value)} ${unit}${changeStr}`;
+}
+
+function formatVolumeTotals(totals: VolumeTotals, change?: VolumeTotals): string {
+  return [
+    formatVolumeFigure(totals.hardSets, change?.hardSets, 'hard sets', 1),
+    formatVolumeFigure(totals.tonnageKg, change?.tonnageKg, 'kg', 0),
+    formatVolumeFigure(totals.reps, change?.reps, 'reps', 1),
+  ].join(' | ');
+}
+
+// Format training volume report, most recent period first
+export function formatTrainingVolume(report: TrainingVolumeReport): string {
+  if (report.buckets.every((b) => b.workoutCount === 0)) {
+    return 'No workouts found in this period.';
+  }
+
+  const label = report.period === 'week' ? 'Weekly' : 'Monthly';
+  const lines: string[] = [`# ${label} Training Volume\n`];
+  lines.push(
+    `*Warmup sets excluded. Secondary muscle groups count ${report.secondaryWeight} of each set. Changes are versus the previous ${report.period}.*`
+  );
+  lines.push('');
+
+  [...report.buckets].reverse().forEach((bucket) => {
+    const formatDay = (date: string) =>
+      new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    const title = report.period === 'week'
+      ? `Week of ${formatDay(bucket.start)}`
+      : new Date(`${bucket.start}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+    lines.push(`## ${title}${bucket.inProgress ? ' (in progress)' : ''}`);
+    lines.push(`**Workouts:** ${bucket.workoutCount} | **Total:** ${formatVolumeTotals(bucket.totals, bucket.totalsChange)}`);
+
+    bucket.muscleGroups.forEach((muscle) => {
+      lines.push(`- **${capitalizeTitle(muscle.muscleGroup.replace(/_/g, ' '))}**: ${formatVolumeTotals(muscle, muscle.change)}`);
+    });
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+// Format muscle balance report: ratios first, then the hard sets behind them
+export function formatMuscleBalance(report: MuscleBalanceReport): string {
+  if (report.workoutCount === 0) {
+    return `No workouts found in the last ${report.lookbackDays} days.`;
+  }
+
+  const since = new Date(`${report.startDate}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  const round = (n: number) => Math.round(n * 10) / 10;
+
+  const lines: string[] = ['# Muscle Balance\n'];
+  lines.push(
+    `**Since:** ${since} | **Workouts:** ${report.workoutCount} | *Hard sets, warmups excluded; secondary muscle groups count ${report.secondaryWeight} of each set.*`
+  );
+  lines.push('');
+
+  lines.push('## Ratios');
+  report.ratios.forEach((r) => {
+    const name = `${r.first.label}:${r.second.label}`;
+    const sets = `${round(r.first.hardSets)} vs ${round(r.second.hardSets)} sets`;
+    const target = `target ${r.range.min}–${r.range.max}`;
+
+    if (r.status === 'insufficient_data') {
+      lines.push(`- ❔ **${name}**: not enough data (${sets})`);
+      return;
+    }
+
+    const ratio = r.ratio !== undefined ? `${round(r.ratio)}` : `no ${r.second.label.toLowerCase()} work`;
+    const emoji = r.status === 'balanced' ? '✅' : '⚠️';
+    const note = {
+      balanced: '',
+      high: ` — more ${r.first.label.toLowerCase()} than ${r.second.label.toLowerCase()} work`,
+      low: ` — more ${r.second.label.toLowerCase()} than ${r.first.label.toLowerCase()} work`,
+    }[r.status];
+    lines.push(`- ${emoji} **${name}**: ${ratio} (${sets}, ${target})${note}`);
+  });
+  lines.push('');
+
+  lines.push('## Hard Sets by Muscle Group');
+  report.muscleGroups.forEach((m) => {
+    lines.push(`- **${capitalizeTitle(m.muscleGroup.replace(/_/g, ' '))}**: ${round(m.hardSets)}`);
+  });
+
+  return lines.join('\n');
+}
+
+const RECORD_LABELS: Record<PersonalRecordEvent['kind'], string> = {
+  heaviest_weight: 'Heaviest weight',
+  best_e1rm: 'Best e1RM',
+  rep_pr: 'Rep PR',
+  best_set_volume: 'Best set volume',
+  best_session_volume: 'Best session volume',
+};
+
+// Describe one record, e.g. "105.3 kg (95kg x 4)" or "80kg x 10"
+function formatRecordValue(event: PersonalRecordEvent): string {
+  if (event.kind === 'rep_pr') {
+    return `${event.weightKg ? `${event.weightKg}kg` : 'Bodyweight'} x ${event.reps}`;
+  }
+  const set = event.weightKg !== undefined ? ` (${event.weightKg}kg x ${event.reps})` : '';
+  return `${(Math.round(event.value * 10) / 10).toLocaleString('en-US')} kg${set}`;
+}
+
+// Format personal record timeline: standing records, then the most recent workouts that set records
+export function formatPersonalRecordTimeline(timeline: PersonalRecordTimeline, maxWorkouts: number = 10): string {
+  if (timeline.events.length === 0) {
+    return `No working sets of ${timeline.exerciseName} found.`;
+  }
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  // e1RM figures name the formula that produced them
+  const label = (kind: PersonalRecordEvent['kind']) =>
+    kind === 'best_e1rm' ? `${RECORD_LABELS[kind]} (${ONE_REP_MAX_FORMULA_LABELS[timeline.formula]})` : RECORD_LABELS[kind];
+
+  const lines: string[] = [`# Personal Records: ${timeline.exerciseName}\n`];
+  lines.push(`*Computed from ${timeline.workoutCount} workout(s); warmup sets excluded.*`);
+  lines.push('');
+
+  // The last event of each kind is the record that still stands
+  lines.push('## Current Records');
+  (['heaviest_weight', 'best_e1rm', 'best_set_volume', 'best_session_volume'] as const).forEach((kind) => {
+    const current = [...timeline.events].reverse().find((e) => e.kind === kind);
+    if (current) {
+      lines.push(`- **${label(kind)}:** ${formatRecordValue(current)} — ${formatDate(current.date)}`);
+    }
+  });
+
+  // Best reps per weight, skipping weights beaten by a heavier weight for as many reps
+  const repBests = new Map<number, PersonalRecordEvent>();
+  timeline.events
+    .filter((e) => e.kind === 'rep_pr')
+    .forEach((e) => repBests.set(e.weightKg || 0, e));
+  const repMaxes = [...repBests.values()]
+    .sort((a, b) => (b.weightKg || 0) - (a.weightKg || 0))
+    .filter((e, idx, sorted) => !sorted.slice(0, idx).some((heavier) => (heavier.reps || 0) >= (e.reps || 0)));
+  if (repMaxes.length > 0) {
+    lines.push(`- **Rep PRs:** ${repMaxes.map(formatRecordValue).join(', ')}`);
+  }
+  lines.push('');
+
+  // Group events by workout, most recent workout first
+  const byWorkout = new Map<string, PersonalRecordEvent[]>();
+  timeline.events.forEach((e) => {
+    byWorkout.set(e.workoutId, [...(byWorkout.get(e.workoutId) || []), e]);
+  });
+
+  lines.push('## Timeline');
+  [...byWorkout.values()].reverse().slice(0, maxWorkouts).forEach((events) => {
+    const { date, workoutTitle, workoutId } = events[0];
+    lines.push(`### ${formatDate(date)} — ${workoutTitle} (ID: ${workoutId})`);
+    events.forEach((e) => {
+      let was = '';
+      if (e.previous !== undefined) {
+        was = e.kind === 'rep_pr' ? ` (was ${e.previous} reps)` : ` (was ${Math.round(e.previous * 10) / 10} kg)`;
+      }
+      lines.push(`- ${label(e.kind)}: ${formatRecordValue(e)}${was}`);
+    });
+    lines.push('');
+  });
+
+  if (byWorkout.size > maxWorkouts) {
+    lines.push(`*${byWorkout.size - maxWorkouts} earlier workout(s) with records not shown.*`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,156 @@
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4)
+ */
+
+type Labels = Record<string, string>;
+
+export interface GaugeSample {
+  labels?: Labels;
+  value: number;
+}
+
+// Histogram buckets in seconds, from fast local calls up to the 60s upstream timeout
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private bucketBounds: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+
+    this.bucketBounds.forEach((bound, i) => {
+      if (seconds <= bound) {
+        entry!.buckets[i]++;
+      }
+    });
+    entry.sum += seconds;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bucketBounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+class Metrics {
+  private httpRequests = new Counter('mcp_http_requests_total', 'HTTP requests handled');
+  private httpDuration = new Histogram('mcp_http_request_duration_seconds', 'HTTP request latency');
+  private toolCalls = new Counter('mcp_tool_calls_total', 'MCP tool calls by outcome');
+  private toolDuration = new Histogram('mcp_tool_call_duration_seconds', 'MCP tool call duration');
+  private upstreamRequests = new Counter('mcp_upstream_requests_total', 'Requests to the Hevy and Home Assistant APIs');
+  private upstreamDuration = new Histogram('mcp_upstream_request_duration_seconds', 'Hevy and Home Assistant API latency');
+  // Gauges are sampled when scraped
+  private gauges = new Map<string, { help: string; collect: () => GaugeSample[] | Promise<GaugeSample[]> }>();
+
+  httpRequest(method: string, route: string, statusCode: number, durationMs: number): void {
+    this.httpRequests.inc({ method, route, status: String(statusCode) });
+    this.httpDuration.observe({ method, route }, durationMs / 1000);
+  }
+
+  toolCall(tool: string, isError: boolean, durationMs: number): void {
+    this.toolCalls.inc({ tool, status: isError ? 'error' : 'success' });
+    this.toolDuration.observe({ tool }, durationMs / 1000);
+  }
+
+  // status is the HTTP status code, or "timeout"/"error" when no response arrived
+  upstreamRequest(upstream: 'hevy' | 'home_assistant', method: string, endpoint: string, status: string, durationMs: number): void {
+    this.upstreamRequests.inc({ upstream, method, endpoint, status });
+    this.upstreamDuration.observe({ upstream, endpoint }, durationMs / 1000);
+  }
+
+  /**
+   * Register (or replace) a gauge whose samples are collected at scrape time
+   */
+  registerGauge(name: string, help: string, collect: () => GaugeSample[] | Promise<GaugeSample[]>): void {
+    this.gauges.set(name, { help, collect });
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  async render(): Promise<string> {
+    const lines = [
+      ...this.httpRequests.render(),
+      ...this.httpDuration.render(),
+      ...this.toolCalls.render(),
+      ...this.toolDuration.render(),
+      ...this.upstreamRequests.render(),
+      ...this.upstreamDuration.render(),
+    ];
+
+    for (const [name, gauge] of this.gauges) {
+      lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`);
+      for (const sample of await gauge.collect()) {
+        lines.push(`${name}${formatLabels(sample.labels || {})} ${sample.value}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Reduce an API path to a low-cardinality label (e.g. "/v1/workouts/abc?page=1" -> "/v1/workouts")
+ */
+export function endpointLabel(endpoint: string): string {
+  return endpoint.split('?')[0].split('/').slice(0, 3).join('/') || '/';
+}
+
+export const metrics = new Metrics();
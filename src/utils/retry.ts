@@ -0,0 +1,163 @@
+import { logger } from './logger.js';
+import { RequestScheduler } from './scheduler.js';
+
+/**
+ * How upstream API requests are retried
+ * Shared by HevyClient and HAClient
+ */
+export interface RetryPolicy {
+  maxRetries: number; // Attempts after the first; 0 disables retries
+  baseDelayMs: number; // Backoff ceiling for the first retry, doubled for each one after
+  maxDelayMs: number; // Longest wait between attempts, including Retry-After
+  retryNonIdempotent: boolean; // Also retry POST/PATCH, which may have taken effect
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryNonIdempotent: false,
+};
+
+// Methods that can be repeated without changing the outcome (RFC 9110 §9.2.2)
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Rate limits, timeouts and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface FetchWithRetryOptions {
+  upstream: string; // Name used in log messages
+  timeoutMs: number; // Per attempt
+  policy: RetryPolicy;
+  scheduler?: RequestScheduler; // Every attempt, including retries, waits for a slot and holds it until the body is read
+}
+
+/**
+ * Whether a method can be repeated without changing the outcome
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Whether a response status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header.trim(), 10) * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to baseDelayMs * 2^attempt
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Why a fetch() produced no response, including the socket error code when there is one
+ * (e.g. "fetch failed (ECONNREFUSED)")
+ */
+export function fetchFailureDetail(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' ? `${error.message} (${code})` : error.message;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch() with a per-attempt timeout, retrying network errors and retryable
+ * statuses with backoff, optionally through a RequestScheduler
+ * Resolves with the last response (which may not be ok), its body already read
+ * within the attempt's timeout; rejects with the last error, which is an AbortError
+ * if the last attempt timed out. Timeouts are retried for idempotent methods only,
+ * since a timed-out POST or PATCH may still complete upstream
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: FetchWithRetryOptions
+): Promise<Response> {
+  const { policy } = options;
+  const method = (init.method || 'GET').toUpperCase();
+  const maxRetries = policy.retryNonIdempotent || isIdempotentMethod(method) ? policy.maxRetries : 0;
+  const maxTimeoutRetries = isIdempotentMethod(method) ? policy.maxRetries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timeout: NodeJS.Timeout | undefined;
+    // The timeout starts once the attempt leaves the scheduler queue
+    const attemptFetch = async () => {
+      timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      // Buffer the body so a slow download keeps its scheduler slot (fetch resolves on headers)
+      const body = await response.arrayBuffer();
+      return new Response(body.byteLength > 0 ? body : null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    };
+
+    let delayMs: number;
+    let reason: string;
+    try {
+      const response = await (options.scheduler ? options.scheduler.schedule(attemptFetch) : attemptFetch());
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+        // Waiting that long would outlast the tool call; let the caller report the error
+        return response;
+      }
+
+      delayMs = retryAfterMs ?? backoffDelay(attempt, policy);
+      reason = `status ${response.status}`;
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      if (attempt >= (timedOut ? maxTimeoutRetries : maxRetries)) {
+        throw error;
+      }
+      delayMs = backoffDelay(attempt, policy);
+      reason = timedOut
+        ? `timed out after ${options.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    logger.warn(`Retrying ${options.upstream} request`, {
+      method,
+      path: new URL(url).pathname,
+      reason,
+      attempt: attempt + 1,
+      maxRetries,
+      delayMs,
+    });
+    await sleep(delayMs);
+  }
+}
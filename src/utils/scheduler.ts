@@ -0,0 +1,98 @@
+/**
+ * Limits for a RequestScheduler
+ */
+export interface SchedulerConfig {
+  maxConcurrent: number; // Requests in flight at once
+  ratePerSecond: number; // Sustained request rate (token refill rate)
+  burst: number; // Requests that may start back to back after an idle period (bucket size)
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxConcurrent: 4,
+  ratePerSecond: 5,
+  burst: 10,
+};
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * FIFO scheduler that caps concurrency and enforces a token-bucket rate limit
+ * Share one instance per upstream so every caller draws from the same budget
+ */
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private wakeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG) {
+    this.tokens = config.burst;
+  }
+
+  /**
+   * Run a task once a concurrency slot and a rate token are available
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ run: task, resolve: resolve as (value: unknown) => void, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Tasks waiting for a slot or token
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Tasks currently running
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.config.burst,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.config.ratePerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.config.maxConcurrent) {
+      this.refill();
+
+      if (this.tokens < 1) {
+        // Wake up when the next token is due (a finishing task may also call drain)
+        if (!this.wakeTimer) {
+          const waitMs = Math.ceil(((1 - this.tokens) / this.config.ratePerSecond) * 1000);
+          this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = null;
+            this.drain();
+          }, waitMs);
+        }
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      const task = this.queue.shift()!;
+      Promise.resolve()
+        .then(task.run)
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { timingSafeEqual, createHash } from 'crypto';
 import sanitizeHtml from 'sanitize-html';
+import { UpstreamAPIError } from './errors.js';
 
 /**
  * Compare two strings in constant time to prevent timing attacks
@@ -90,7 +91,7 @@ export function sanitizeErrorMessage(error: unknown, isProduction: boolean = tru
   // In production, return generic messages
   if (error instanceof Error) {
     // Only return safe, generic messages in production
-    if (error.message.includes('API error')) {
+    if (error instanceof UpstreamAPIError || error.message.includes('API error')) {
       return 'External API request failed';
     }
     if (error.message.includes('Validation')) {
@@ -106,3 +107,17 @@ export function sanitizeErrorMessage(error: unknown, isProduction: boolean = tru
 
   return 'An error occurred while processing your request';
 }
+
+/**
+ * Escape text for safe interpolation into HTML content and attribute values
+ * @param input Raw text
+ * @returns HTML-escaped text
+ */
+export function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -5,9 +5,9 @@ import { sanitizeText } from './security.js';
 // The Hevy API expects null (not undefined or omission) for optional fields like folder_id
 const optionalString = () => {
   return z
-    .union([z.string(), z.null(), z.undefined()])
-    .optional()
+    .string()
     .nullable()
+    .optional()
     .transform((val) => {
       // Convert string "undefined", "null", or empty string to null
       // The Hevy API expects null for "no folder" rather than omitting the field
@@ -32,100 +32,166 @@ const sanitizedString = (maxLength: number = 10000, minLength: number = 0) => {
 
 // Exercise Set Schema
 export const ExerciseSetSchema = z.object({
-  type: z.enum(['normal', 'warmup', 'dropset', 'failure']),
-  weight_kg: z.number().optional().nullable(),
-  reps: z.number().optional().nullable(),
-  distance_meters: z.number().optional().nullable(),
-  duration_seconds: z.number().optional().nullable(),
-  rpe: z.number().min(1).max(10).optional().nullable(),
+  type: z.enum(['normal', 'warmup', 'dropset', 'failure']).describe('Type of set'),
+  weight_kg: z.number().nullable().optional().describe('Weight in kilograms'),
+  reps: z.number().nullable().optional().describe('Number of repetitions'),
+  distance_meters: z.number().nullable().optional().describe('Distance in meters (for cardio)'),
+  duration_seconds: z.number().nullable().optional().describe('Duration in seconds (for cardio/timed exercises)'),
+  rpe: z.number().min(1).max(10).nullable().optional().describe('Rate of Perceived Exertion (1-10)'),
+});
+
+// Routine sets are plans rather than records, so only the descriptions differ
+export const RoutineSetSchema = ExerciseSetSchema.extend({
+  weight_kg: ExerciseSetSchema.shape.weight_kg.describe('Planned weight in kilograms'),
+  reps: ExerciseSetSchema.shape.reps.describe('Planned number of repetitions'),
+  distance_meters: ExerciseSetSchema.shape.distance_meters.describe('Planned distance in meters (for cardio)'),
+  duration_seconds: ExerciseSetSchema.shape.duration_seconds.describe('Planned duration in seconds'),
+  rpe: ExerciseSetSchema.shape.rpe.describe('Planned Rate of Perceived Exertion (1-10)'),
 });
 
 // Workout Exercise Schema
 export const WorkoutExerciseSchema = z.object({
-  exercise_template_id: z.string(),
-  superset_id: optionalString().nullable(),
-  notes: sanitizedString(5000).optional(),
-  sets: z.array(ExerciseSetSchema),
+  exercise_template_id: z.string().describe('ID of the exercise template'),
+  superset_id: optionalString().describe('Optional superset ID to group exercises'),
+  notes: sanitizedString(5000).optional().describe('Optional notes for this exercise'),
+  sets: z.array(ExerciseSetSchema).describe('Array of sets performed'),
 });
 
 // Create Workout Input Schema
 export const CreateWorkoutInputSchema = z.object({
-  title: sanitizedString(200, 1),
-  description: sanitizedString(5000).optional(),
-  start_time: z.string().datetime(),
-  end_time: z.string().datetime(),
-  exercises: z.array(WorkoutExerciseSchema),
+  title: sanitizedString(200, 1).describe('Workout title (e.g., "Push Day", "Leg Workout")'),
+  description: sanitizedString(5000).optional().describe('Optional workout description'),
+  start_time: z.string().datetime().describe('ISO 8601 datetime string when workout started'),
+  end_time: z.string().datetime().describe('ISO 8601 datetime string when workout ended'),
+  exercises: z.array(WorkoutExerciseSchema).describe('Array of exercises performed in this workout'),
 });
 
 // Update Workout Input Schema
 export const UpdateWorkoutInputSchema = z.object({
-  title: sanitizedString(200, 1).optional(),
-  description: sanitizedString(5000).optional(),
-  start_time: z.string().datetime().optional(),
-  end_time: z.string().datetime().optional(),
-  exercises: z.array(WorkoutExerciseSchema).optional(),
+  title: sanitizedString(200, 1).optional().describe('New workout title'),
+  description: sanitizedString(5000).optional().describe('New workout description'),
+  start_time: z.string().datetime().optional().describe('New ISO 8601 datetime for start time'),
+  end_time: z.string().datetime().optional().describe('New ISO 8601 datetime for end time'),
+  exercises: z.array(WorkoutExerciseSchema).optional().describe('New exercises array (replaces all existing exercises)'),
 });
 
 // Routine Exercise Schema
 export const RoutineExerciseSchema = z.object({
-  exercise_template_id: z.string(),
-  superset_id: optionalString().nullable(),
-  notes: sanitizedString(5000).optional(),
-  sets: z.array(ExerciseSetSchema),
+  exercise_template_id: z.string().describe('ID of the exercise template'),
+  superset_id: optionalString().describe('Optional superset ID to group exercises'),
+  notes: sanitizedString(5000).optional().describe('Optional notes for this exercise'),
+  sets: z.array(RoutineSetSchema).describe('Array of planned sets'),
 });
 
 // Create Routine Input Schema
 export const CreateRoutineInputSchema = z.object({
-  title: sanitizedString(200, 1),
-  folder_id: optionalString(),
-  exercises: z.array(RoutineExerciseSchema),
+  title: sanitizedString(200, 1).describe('Routine title (e.g., "Push Day", "Full Body Workout")'),
+  folder_id: optionalString().describe('Optional folder ID to organize routine'),
+  exercises: z.array(RoutineExerciseSchema).describe('Array of exercises in this routine'),
 });
 
 // Update Routine Input Schema
 export const UpdateRoutineInputSchema = z.object({
-  title: sanitizedString(200, 1).optional(),
-  folder_id: optionalString(),
-  exercises: z.array(RoutineExerciseSchema).optional(),
+  title: sanitizedString(200, 1).optional().describe('New routine title'),
+  folder_id: optionalString().describe('New folder ID'),
+  exercises: z.array(RoutineExerciseSchema).optional().describe('New exercises array (replaces all existing exercises)'),
 });
 
 // Create Folder Input Schema
 export const CreateFolderInputSchema = z.object({
-  title: sanitizedString(200, 1),
+  title: sanitizedString(200, 1).describe('Folder name (e.g., "Strength Training", "Cardio Routines")'),
 });
 
 // Pagination Params Schema
+// Defaults differ per endpoint, so tools extend these with their own defaults and descriptions
 export const PaginationParamsSchema = z.object({
-  page: z.number().int().min(0).optional(),
+  page: z.number().int().min(0).optional().describe('Page number for pagination (default: 0)'),
   pageSize: z.number().int().min(1).max(100).optional(),
 });
 
 // Workout Query Params Schema
 export const WorkoutQueryParamsSchema = PaginationParamsSchema.extend({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  startDate: z.string().optional().describe('ISO 8601 date string (YYYY-MM-DD) for filtering workouts from this date'),
+  endDate: z.string().optional().describe('ISO 8601 date string (YYYY-MM-DD) for filtering workouts until this date'),
 });
 
 // Exercise Progress Params Schema
 export const ExerciseProgressParamsSchema = z.object({
-  exercise_template_id: z.string(),
-  start_date: z.string().optional(),
-  end_date: z.string().optional(),
-  limit: z.number().int().min(1).max(100).optional(),
+  exercise_template_id: z.string().describe('The exercise template ID to track'),
+  start_date: z.string().optional().describe('ISO 8601 date string (YYYY-MM-DD) for start of date range'),
+  end_date: z.string().optional().describe('ISO 8601 date string (YYYY-MM-DD) for end of date range'),
+  limit: z.number().int().min(1).max(100).optional().describe('Max number of progress entries to return (default: 50, max: 100)'),
 });
 
+// One-Rep Max Formula Schema
+export const OneRepMaxFormulaSchema = z.enum(['epley', 'brzycki', 'lombardi', 'mayhew', 'oconner', 'wathan', 'rpe']);
+
+// Webhook Event Schema
+export const WebhookEventSchema = z.enum([
+  'workout.created',
+  'workout.updated',
+  'workout.deleted',
+  'routine.created',
+  'routine.updated',
+  'routine.deleted',
+]);
+
 // Webhook Input Schema
 export const CreateWebhookInputSchema = z.object({
   url: z.string().url(),
-  events: z.array(
-    z.enum([
-      'workout.created',
-      'workout.updated',
-      'workout.deleted',
-      'routine.created',
-      'routine.updated',
-      'routine.deleted',
-    ])
-  ),
+  events: z.array(WebhookEventSchema),
+  authToken: z.string().optional(),
+});
+
+// Home Assistant identifiers are interpolated into API paths, so restrict them to HA's own format
+export const HAEntityIdSchema = z
+  .string()
+  .regex(/^[a-z0-9_]+\.[a-z0-9_]+$/, 'Must be an entity ID like "light.living_room"');
+const haIdentifier = () => z.string().regex(/^[a-z0-9_]+$/, 'Must be lowercase letters, digits or underscores');
+const haTargetIds = (description: string) =>
+  z.union([z.string(), z.array(z.string())]).optional().describe(description);
+
+// Home Assistant Set State Input Schema
+export const HASetStateInputSchema = z.object({
+  entity_id: HAEntityIdSchema.describe('The entity ID to update'),
+  // Numeric and boolean states are accepted and stored as strings, as HA does
+  state: z
+    .union([z.string().min(1), z.number(), z.boolean()])
+    .transform(String)
+    .describe('The new state value (e.g., "on", "off", "25")'),
+  attributes: z.record(z.unknown()).optional().describe('Optional attributes to set on the entity'),
+});
+
+// Home Assistant Service Call Input Schema
+export const HAServiceCallInputSchema = z.object({
+  domain: haIdentifier().describe('The service domain (e.g., "light", "switch", "climate", "automation")'),
+  service: haIdentifier().describe('The service to call (e.g., "turn_on", "turn_off", "toggle")'),
+  service_data: z
+    .record(z.unknown())
+    .optional()
+    .describe('Optional service data (e.g., {"brightness": 255, "rgb_color": [255, 0, 0]})'),
+  target: z
+    .object({
+      entity_id: haTargetIds('Entity ID or array of entity IDs'),
+      device_id: haTargetIds('Device ID or array of device IDs'),
+      area_id: haTargetIds('Area ID or array of area IDs'),
+    })
+    .optional()
+    .describe('Target entities, devices, or areas'),
+});
+
+// Home Assistant History Params Schema
+export const HAHistoryParamsSchema = z.object({
+  entity_id: HAEntityIdSchema.optional().describe('The entity ID to get history for'),
+  start_time: z
+    .string()
+    .optional()
+    .describe('ISO 8601 datetime string for history start (e.g., "2024-01-01T00:00:00")'),
+  end_time: z.string().optional().describe('ISO 8601 datetime string for history end (defaults to now)'),
+  minimal_response: z
+    .boolean()
+    .default(false)
+    .describe('If true, returns minimal data (state and timestamp only)'),
 });
 
 // Helper function to validate and parse data
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server as HttpServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createHevyMCPServerFactory } from '../src/server.js';
+
+// Fake Hevy API: GET /v1/workouts/{id} answers after a per-ID delay so concurrent calls interleave
+function startFakeHevyApi(delays: Record<string, number>): Promise<HttpServer> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = url.pathname.match(/^\/v1\/workouts\/([^/]+)$/);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/v1/exercise_templates') {
+      return send(200, { exercise_templates: [] });
+    }
+    if (!match) {
+      return send(404, { error: 'not found' });
+    }
+
+    const id = decodeURIComponent(match[1]);
+    setTimeout(() => {
+      send(200, {
+        id,
+        title: `Workout ${id}`,
+        start_time: '2026-01-01T10:00:00Z',
+        end_time: '2026-01-01T11:00:00Z',
+        exercises: [],
+      });
+    }, delays[id] ?? 0);
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function connectSession(serverFactory: ReturnType<typeof createHevyMCPServerFactory>, name: string) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = serverFactory();
+  await server.connect(serverTransport);
+
+  const client = new Client({ name, version: '1.0.0' });
+  await client.connect(clientTransport);
+  return { client, server };
+}
+
+function resultText(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as { type: string; text: string }[];
+  return content.map((c) => c.text).join('\n');
+}
+
+// A shared Server routes responses to the last-connected transport, so crosstalk shows up as a request timeout
+test('concurrent sessions get their own responses', async () => {
+  // The first session's workouts answer slowest, so its responses arrive after the second session's
+  const api = await startFakeHevyApi({ 'a-1': 60, 'a-2': 40, 'b-1': 10, 'b-2': 30 });
+  const { port } = api.address() as AddressInfo;
+
+  const serverFactory = createHevyMCPServerFactory({
+    apiKey: 'test-key',
+    apiBaseUrl: `http://127.0.0.1:${port}`,
+  });
+
+  const sessionA = await connectSession(serverFactory, 'session-a');
+  const sessionB = await connectSession(serverFactory, 'session-b');
+
+  try {
+    assert.notEqual(sessionA.server, sessionB.server, 'each session should get its own Server');
+
+    const calls = [
+      ['a', sessionA.client, 'a-1'],
+      ['b', sessionB.client, 'b-1'],
+      ['a', sessionA.client, 'a-2'],
+      ['b', sessionB.client, 'b-2'],
+    ] as const;
+
+    const results = await Promise.all(
+      calls.map(([, client, workoutId]) => client.callTool({ name: 'get-workout', arguments: { id: workoutId } }, undefined, { timeout: 5000 }))
+    );
+
+    results.forEach((result, idx) => {
+      const [session, , workoutId] = calls[idx];
+      const text = resultText(result);
+      assert.ok(!result.isError, `session ${session} call for ${workoutId} failed: ${text}`);
+      assert.match(text, new RegExp(`Workout ${workoutId}\\b`, 'i'), `session ${session} got another call's result`);
+    });
+
+    // Closing one session leaves the other working
+    await sessionA.client.close();
+    const after = await sessionB.client.callTool({ name: 'get-workout', arguments: { id: 'b-1' } }, undefined, { timeout: 5000 });
+    assert.match(resultText(after), /Workout b-1\b/i);
+  } finally {
+    await sessionA.client.close();
+    await sessionB.client.close();
+    await new Promise((resolve) => api.close(resolve));
+  }
+});